@@ -0,0 +1,317 @@
+// Background reminders for the day planner. The page mirrors its schedule here; while no page is
+// alive to ring the alarm itself, this worker shows the notification and records what it did so
+// the page can reconcile `notifiedAt`, completions and snoozes when it comes back.
+
+const DB_NAME = 'agentic-401dd876';
+const STORE = 'reminders';
+const SYNC_TAG = 'planner-reminders';
+// Hidden tabs may only get one timer tick per minute, so allow a little more than that.
+const HEARTBEAT_GRACE_MS = 90000;
+const SNOOZE_MINUTES = 5;
+// These mirror src/planner/reminders.ts, which the page rings by.
+const MINUTE_MS = 60000;
+const LEAD_GRACE_MS = 2 * MINUTE_MS;
+
+let timer = null;
+
+const openDb = () =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const read = async (key, fallback) => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE).objectStore(STORE).get(key);
+    request.onsuccess = () => resolve(request.result ?? fallback);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const write = async (key, value) => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, 'readwrite');
+    transaction.objectStore(STORE).put(value, key);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+const recordEvent = async (event) => {
+  const events = await read('events', []);
+  const id = `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+  await write('events', [...events, { id, ...event }]);
+  const clients = await self.clients.matchAll({ type: 'window' });
+  clients.forEach((client) => client.postMessage({ type: 'events' }));
+};
+
+const updateTask = async (taskId, changes) => {
+  const schedule = await read('schedule', []);
+  await write(
+    'schedule',
+    schedule.map((task) => (task.id === taskId ? { ...task, ...changes } : task)),
+  );
+};
+
+// Kept in the database rather than worker memory: the browser may restart the worker at any time,
+// and a fresh one must not take a live page for gone and ring alongside it.
+const beat = () => write('heartbeat', Date.now());
+
+const pageIsAlive = async () => Date.now() - (await read('heartbeat', 0)) < HEARTBEAT_GRACE_MS;
+
+// Quiet hours and Do Not Disturb, as in src/planner/quietHours.ts.
+const minutesOf = (clock) => {
+  const [hours, minutes] = clock.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const atClock = (day, clock) => {
+  const copy = new Date(day.getTime());
+  copy.setHours(0, minutesOf(clock), 0, 0);
+  return copy.getTime();
+};
+
+const quietHoursEnd = (settings, now) => {
+  if (!settings.enabled || settings.start === settings.end) {
+    return null;
+  }
+  const today = new Date(now);
+  const current = today.getHours() * 60 + today.getMinutes();
+  const start = minutesOf(settings.start);
+  const end = minutesOf(settings.end);
+  if (start < end) {
+    return current >= start && current < end ? atClock(today, settings.end) : null;
+  }
+  if (current >= start) {
+    const tomorrow = new Date(now);
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    return atClock(tomorrow, settings.end);
+  }
+  return current < end ? atClock(today, settings.end) : null;
+};
+
+const quietUntil = (settings, now) => {
+  if (!settings) return null;
+  const dnd = settings.dndUntil !== null && settings.dndUntil > now ? settings.dndUntil : null;
+  const hours = quietHoursEnd(settings, now);
+  if (dnd === null) return hours;
+  if (hours === null) return dnd;
+  return Math.max(dnd, hours);
+};
+
+// Schedules mirrored by an older page lack the reminder settings; they rang at the start only.
+const readSchedule = async () =>
+  (await read('schedule', [])).map((task) => ({
+    reminderOffsets: [0],
+    nagMinutes: null,
+    remindersSent: {},
+    breaksThroughDnd: false,
+    ...task,
+  }));
+
+const slotKey = (task, name) => `${name}@${task.scheduledFor}`;
+
+// Same rules as `dueReminders`: lead reminders before the start, the start itself (silent unless
+// "At start" is one of the task's reminders) and then a nag every `nagMinutes` while still open.
+const dueReminders = (task, now) => {
+  if (task.completed) {
+    return [];
+  }
+  const start = new Date(task.scheduledFor).getTime();
+  if (now < start) {
+    return task.reminderOffsets
+      .filter((offset) => offset > 0)
+      .sort((a, b) => b - a)
+      .flatMap((offset) => {
+        const fireAt = start - offset * MINUTE_MS;
+        const key = slotKey(task, `before:${offset}`);
+        if (fireAt > now || now - fireAt > LEAD_GRACE_MS || task.remindersSent[key]) return [];
+        return [{ key, heading: `Starting in ${offset} min`, audible: true }];
+      });
+  }
+  if (!task.notifiedAt) {
+    return [
+      { key: slotKey(task, 'start'), heading: 'It is time!', audible: task.reminderOffsets.includes(0) },
+    ];
+  }
+  if (!task.nagMinutes) {
+    return [];
+  }
+  const round = Math.floor(
+    (now - new Date(task.notifiedAt).getTime()) / (task.nagMinutes * MINUTE_MS),
+  );
+  const key = slotKey(task, `nag:${round}`);
+  if (round < 1 || task.remindersSent[key]) {
+    return [];
+  }
+  return [{ key, heading: `Still open · ${round * task.nagMinutes} min overdue`, audible: true }];
+};
+
+const nextReminderAt = (task, now) => {
+  if (task.completed) {
+    return null;
+  }
+  const start = new Date(task.scheduledFor).getTime();
+  if (now < start) {
+    const leads = task.reminderOffsets
+      .map((offset) => ({ offset, fireAt: start - offset * MINUTE_MS }))
+      .filter(
+        ({ offset, fireAt }) =>
+          offset > 0 && fireAt > now && !task.remindersSent[slotKey(task, `before:${offset}`)],
+      )
+      .map(({ fireAt }) => fireAt);
+    return Math.min(start, ...leads);
+  }
+  if (!task.notifiedAt || !task.nagMinutes) {
+    return null;
+  }
+  const notifiedAt = new Date(task.notifiedAt).getTime();
+  const interval = task.nagMinutes * MINUTE_MS;
+  return notifiedAt + (Math.floor((now - notifiedAt) / interval) + 1) * interval;
+};
+
+const notify = (task, heading) =>
+  self.registration.showNotification(heading, {
+    body: `${task.title} ${task.notes ? `• ${task.notes}` : ''}`.trim(),
+    tag: task.id,
+    requireInteraction: true,
+    data: { taskId: task.id },
+    actions: [
+      { action: 'complete', title: 'Complete' },
+      { action: 'snooze', title: `Snooze ${SNOOZE_MINUTES} min` },
+    ],
+  });
+
+const checkDue = async () => {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  const schedule = await readSchedule();
+  const quiet = await read('quiet', null);
+  const now = Date.now();
+  const quietEnd = quietUntil(quiet, now);
+  let held = await read('held', []);
+  if (!(await pageIsAlive())) {
+    for (const task of schedule) {
+      const due = dueReminders(task, now);
+      if (due.length === 0) continue;
+      const at = new Date().toISOString();
+      const remindersSent = { ...task.remindersSent };
+      for (const reminder of due) {
+        if (!reminder.audible) continue;
+        // Held back like the page's silenced alerts, and summed up once quiet time is over.
+        if (quietEnd !== null && !task.breaksThroughDnd) {
+          held = [...held, task.title];
+        } else {
+          await notify(task, reminder.heading);
+        }
+        remindersSent[reminder.key] = at;
+        await recordEvent({ kind: 'reminded', taskId: task.id, at, key: reminder.key });
+      }
+      const started = due.some((reminder) => reminder.key === slotKey(task, 'start'));
+      await updateTask(task.id, { remindersSent, notifiedAt: started ? at : task.notifiedAt });
+      if (started) {
+        await recordEvent({ kind: 'notified', taskId: task.id, at });
+      }
+    }
+  }
+  // Sent even if a page has come back since, as it never saw these.
+  if (quietEnd === null && held.length > 0) {
+    await self.registration.showNotification(
+      `${held.length} ${held.length === 1 ? 'reminder' : 'reminders'} while you were away`,
+      { body: held.join(', '), tag: 'quiet-summary' },
+    );
+    held = [];
+  }
+  await write('held', held);
+  const upcoming = (await readSchedule())
+    .map((task) => nextReminderAt(task, now))
+    .concat(held.length > 0 ? [quietEnd] : [])
+    .filter((time) => time !== null && time > now);
+  if (upcoming.length > 0) {
+    // Only honoured while the browser keeps the worker running; periodic sync covers the rest.
+    timer = setTimeout(() => {
+      checkDue().catch(() => undefined);
+    }, Math.min(...upcoming) - now);
+  }
+};
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim().then(checkDue));
+});
+
+self.addEventListener('message', (event) => {
+  const message = event.data ?? {};
+  switch (message.type) {
+    case 'heartbeat':
+      event.waitUntil(beat());
+      break;
+    case 'schedule':
+      event.waitUntil(
+        beat()
+          .then(() => write('schedule', message.tasks))
+          .then(() => write('quiet', message.quiet ?? null))
+          .then(checkDue),
+      );
+      break;
+    case 'sync-request':
+      event.waitUntil(
+        read('events', []).then((events) => event.source?.postMessage({ type: 'sync', events })),
+      );
+      break;
+    case 'ack':
+      event.waitUntil(
+        read('events', []).then((events) =>
+          write(
+            'events',
+            events.filter((item) => !message.ids.includes(item.id)),
+          ),
+        ),
+      );
+      break;
+    default:
+      break;
+  }
+});
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(checkDue());
+  }
+});
+
+self.addEventListener('notificationclick', (event) => {
+  const { taskId } = event.notification.data ?? {};
+  event.notification.close();
+  const at = new Date().toISOString();
+  const handle = async () => {
+    if (event.action === 'complete' && taskId) {
+      await updateTask(taskId, { completed: true });
+      await recordEvent({ kind: 'completed', taskId, at });
+      return;
+    }
+    if (event.action === 'snooze' && taskId) {
+      const scheduledFor = new Date(Date.now() + SNOOZE_MINUTES * 60000).toISOString();
+      await updateTask(taskId, { scheduledFor, notifiedAt: null });
+      await recordEvent({ kind: 'snoozed', taskId, at, scheduledFor });
+      await checkDue();
+      return;
+    }
+    const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (clients.length > 0) {
+      await clients[0].focus();
+    } else {
+      await self.clients.openWindow('/');
+    }
+  };
+  event.waitUntil(handle());
+});
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { deleteTask, updateTask } from '../../../../planner/taskFileStore';
+import type { Task } from '../../../../planner/tasks';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const body = (await request.json().catch(() => null)) as { task?: Partial<Task> } | null;
+  if (!body?.task || typeof body.task !== 'object') {
+    return NextResponse.json({ error: 'Expected { task }' }, { status: 400 });
+  }
+  const result = await updateTask(id, body.task);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  return NextResponse.json({ task: result.value });
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const result = await deleteTask(id);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  return new NextResponse(null, { status: 204 });
+}
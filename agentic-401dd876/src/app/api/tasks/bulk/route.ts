@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { createTasks, validateIncoming } from '../../../../planner/taskFileStore';
+
+// Templates are expanded on the device so that their hour/minute slots follow the user's local
+// clock; this endpoint then stores the whole batch atomically.
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as { tasks?: unknown } | null;
+  if (!Array.isArray(body?.tasks) || body.tasks.length === 0) {
+    return NextResponse.json({ error: 'Expected { tasks: [...] }' }, { status: 400 });
+  }
+  const validated = validateIncoming(body.tasks);
+  if (!validated.ok) {
+    return NextResponse.json({ error: validated.error }, { status: validated.status });
+  }
+  const result = await createTasks(validated.value);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  return NextResponse.json({ tasks: result.value }, { status: 201 });
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { createTasks, listTasks, validateIncoming } from '../../../planner/taskFileStore';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const result = await listTasks();
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  return NextResponse.json({ tasks: result.value });
+}
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as { task?: unknown } | null;
+  if (!body?.task) {
+    return NextResponse.json({ error: 'Expected { task }' }, { status: 400 });
+  }
+  const validated = validateIncoming([body.task]);
+  if (!validated.ok) {
+    return NextResponse.json({ error: validated.error }, { status: validated.status });
+  }
+  const result = await createTasks(validated.value);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  return NextResponse.json({ task: result.value[0] }, { status: 201 });
+}
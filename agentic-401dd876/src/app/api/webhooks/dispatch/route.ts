@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { dispatchNotices } from '../../../../planner/webhookDispatcher';
+import { findTargets, recordDeliveries } from '../../../../planner/webhookStore';
+import { sanitizeNotices, WEBHOOK_EVENTS } from '../../../../planner/webhooks';
+
+export const dynamic = 'force-dynamic';
+
+// The page reports task events here and the server signs and delivers them. Retries happen
+// before the response is sent, so the result of every attempt ends up in the delivery log.
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as
+    | { notices?: unknown; targetId?: unknown }
+    | null;
+  const notices = sanitizeNotices(body?.notices);
+  if (!notices || notices.length === 0) {
+    return NextResponse.json({ error: 'Expected { notices: [...] }' }, { status: 400 });
+  }
+  const targetId = typeof body?.targetId === 'string' ? body.targetId : undefined;
+  const found = await findTargets(targetId);
+  if (!found.ok) {
+    return NextResponse.json({ error: found.error }, { status: found.status });
+  }
+  const targets = found.value;
+  if (targetId && targets.length === 0) {
+    return NextResponse.json({ error: `Webhook ${targetId} not found` }, { status: 404 });
+  }
+  // A test delivery reaches its target whatever events it is subscribed to.
+  const deliveries = await dispatchNotices(
+    targetId ? targets.map((target) => ({ ...target, events: WEBHOOK_EVENTS })) : targets,
+    notices,
+  );
+  await recordDeliveries(deliveries);
+  return NextResponse.json({ deliveries });
+}
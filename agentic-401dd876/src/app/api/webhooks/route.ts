@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { readWebhooks, replaceTargets } from '../../../planner/webhookStore';
+import { maskTargets } from '../../../planner/webhooks';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const result = await readWebhooks();
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  return NextResponse.json(maskTargets(result.value));
+}
+
+export async function PUT(request: Request) {
+  const body = (await request.json().catch(() => null)) as { targets?: unknown } | null;
+  if (!body?.targets) {
+    return NextResponse.json({ error: 'Expected { targets: [...] }' }, { status: 400 });
+  }
+  const result = await replaceTargets(body.targets);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  return NextResponse.json(maskTargets(result.value));
+}
@@ -1,35 +1,224 @@
 'use client';
 
-import { FormEvent, useCallback, useEffect, useMemo, useReducer, useRef, useState } from 'react';
+import { ChangeEvent, FormEvent, useCallback, useEffect, useMemo, useReducer, useRef, useState } from 'react';
+import QuickAdd from '../components/QuickAdd';
+import AlertList from '../components/AlertList';
+import CalendarView from '../components/CalendarView';
+import Checklist from '../components/Checklist';
+import CommandPalette from '../components/CommandPalette';
+import DayNavigator from '../components/DayNavigator';
+import DoNotDisturbPanel from '../components/DoNotDisturbPanel';
+import FilterBar from '../components/FilterBar';
+import FocusTimer from '../components/FocusTimer';
+import RecurrenceFields from '../components/RecurrenceFields';
+import ReminderFields, { type ReminderDraft } from '../components/ReminderFields';
+import RestorePreview from '../components/RestorePreview';
+import ShortcutHelp from '../components/ShortcutHelp';
+import SoundSettingsPanel from '../components/SoundSettingsPanel';
+import StatsPanel from '../components/StatsPanel';
+import TemplateManager from '../components/TemplateManager';
+import TimeZonePanel from '../components/TimeZonePanel';
+import UndoToast from '../components/UndoToast';
+import WebhookPanel from '../components/WebhookPanel';
+import {
+  ALERTS_KEY,
+  isMissed,
+  openAlerts,
+  persistAlerts,
+  readAlerts,
+  type Alert,
+} from '../planner/alerts';
+import { computeStats } from '../planner/analytics';
+import {
+  ARCHIVE_KEY,
+  archiveTasks,
+  archivedDay,
+  persistArchive,
+  persistRolloverMode,
+  readArchive,
+  readRolloverMode,
+  rollOver,
+  ROLLOVER_KEY,
+  type ArchivedDay,
+  type RolloverMode,
+} from '../planner/archive';
+import { rescheduleTask, startOfDay } from '../planner/calendarLayout';
+import {
+  checklistFromTexts,
+  checklistText,
+  parseChecklist,
+  toggleChecklistItem,
+} from '../planner/checklist';
+import {
+  findShortcut,
+  isPaletteShortcut,
+  isRedoShortcut,
+  isTypingTarget,
+  isUndoShortcut,
+  type Command,
+} from '../planner/commands';
+import {
+  applyFilter,
+  persistUrlFilter,
+  readUrlFilter,
+  serializeFilter,
+  TASK_STATUSES,
+  type TaskFilter,
+} from '../planner/filters';
+import {
+  advanceFocus,
+  FOCUS_SESSION_KEY,
+  focusedMinutes,
+  isFocusPhaseOver,
+  pauseFocus,
+  persistFocusSession,
+  persistFocusSettings,
+  readFocusSession,
+  readFocusSettings,
+  resizeFocus,
+  resumeFocus,
+  startFocus,
+  type FocusSession,
+  type FocusSettings,
+} from '../planner/focus';
+import {
+  applyChanges,
+  diffTasks,
+  HISTORY_KEY,
+  persistHistory,
+  readHistory,
+  recordEntry,
+  stepBack,
+  stepForward,
+  type ActionHistory,
+  type HistoryEntry,
+} from '../planner/history';
+import { exportCalendar, mergeCalendarEvents, parseCalendar } from '../planner/ical';
+import type { QuickAddParse } from '../planner/quickAdd';
+import {
+  isQuietAt,
+  persistQuietSettings,
+  quietUntil,
+  readQuietSettings,
+  type QuietSettings,
+} from '../planner/quietHours';
+import {
+  buildRecurrence,
+  createNextOccurrence,
+  describeRecurrence,
+  emptyRecurrenceDraft,
+  endSeries,
+  isWithinRecurrenceWindow,
+  pinSeries,
+  toRecurrenceDraft,
+  updateSeries,
+  type RecurrenceDraft,
+  type TaskSeries,
+} from '../planner/recurrence';
+import {
+  acknowledgeWorkerEvents,
+  isReminderWorkerSupported,
+  mirrorSchedule,
+  reconcileWorkerEvents,
+  registerReminderWorker,
+  requestWorkerEvents,
+  sendHeartbeat,
+  type WorkerMessage,
+} from '../planner/reminderWorker';
+import { DEFAULT_REMINDER_OFFSETS, sentReminderLabels } from '../planner/reminders';
+import {
+  createScheduler,
+  systemClock,
+  type Firing,
+  type ReminderSink,
+} from '../planner/scheduler';
+import {
+  applyRestore,
+  clearQuarantine,
+  createBackup,
+  persistTasks,
+  planRestore,
+  readQuarantine,
+  readTasks,
+  type RestoreMode,
+  type RestorePlan,
+} from '../planner/storage';
+import { createServerSync, type ServerSync, type SyncState } from '../planner/serverSync';
+import {
+  ESCALATION_INTERVAL_MS,
+  ESCALATION_LIMIT_MS,
+  persistCustomSounds,
+  persistSoundSettings,
+  playSound,
+  readCustomSounds,
+  readSoundSettings,
+  resolveSoundId,
+  soundPresets,
+  type CustomSound,
+  type SoundSettings,
+} from '../planner/sounds';
+import { createTabChannel, electAlarmLeader, type TabChannel } from '../planner/tabSync';
+import {
+  parseTags,
+  persistTagColors,
+  readTagColors,
+  tagColor,
+  tagColorClasses,
+  type TagColor,
+} from '../planner/tags';
+import { createId, PRIORITIES, type Priority, type Task } from '../planner/tasks';
+import {
+  findConflicts,
+  findOverlaps,
+  shiftFollowingTasks,
+  taskEndsAt,
+} from '../planner/timeblocks';
+import {
+  builtInTemplates,
+  persistCustomTemplates,
+  readCustomTemplates,
+  type Template,
+} from '../planner/templates';
+import {
+  announceWebhooksChanged,
+  collectOverdue,
+  detectTaskEvents,
+  dispatchWebhooks,
+  fetchWebhooks,
+  persistOverdueSent,
+  readOverdueSent,
+  sampleNotice,
+  saveWebhookTargets,
+  type TaskNotice,
+  WEBHOOKS_CHANGED_KEY,
+  type WebhookState,
+  type WebhookTarget,
+} from '../planner/webhooks';
+import {
+  deviceZone,
+  formatInZone,
+  fromZonedInputValue,
+  nextWallClock,
+  persistZoneSettings,
+  planningZone,
+  readZoneSettings,
+  seriesZone,
+  toZonedInputValue,
+  ZONE_SETTINGS_KEY,
+  zoneLabel,
+  type ZoneSettings,
+} from '../planner/zones';
 
-type Task = {
-  id: string;
-  title: string;
-  notes: string;
-  scheduledFor: string;
-  completed: boolean;
-  notifiedAt: string | null;
-  createdAt: string;
+type PendingRestore = {
+  fileName: string;
+  plan: RestorePlan;
 };
 
-type TemplateTask = {
+type SeriesDraft = {
+  series: TaskSeries;
   title: string;
   notes: string;
-  hour: number;
-  minute: number;
-};
-
-type Template = {
-  name: string;
-  description: string;
-  tasks: TemplateTask[];
-};
-
-type Alert = {
-  id: string;
-  taskId: string;
-  message: string;
-  triggeredAt: number;
+  recurrence: RecurrenceDraft;
 };
 
 declare global {
@@ -38,88 +227,12 @@ declare global {
   }
 }
 
-const STORAGE_KEY = 'agentic-401dd876::tasks';
-const ALERT_DURATION_MS = 45000;
-
-const templates: Template[] = [
-  {
-    name: 'Balanced Morning',
-    description: 'A gentle start with movement, planning, and breakfast.',
-    tasks: [
-      {
-        title: 'Wake up & stretch',
-        notes: 'Light mobility routine to wake up your body.',
-        hour: 7,
-        minute: 0,
-      },
-      {
-        title: 'Plan the day',
-        notes: 'Review goals and top 3 priorities.',
-        hour: 7,
-        minute: 20,
-      },
-      {
-        title: 'Healthy breakfast',
-        notes: 'Keep it simple: oats or eggs + fruit.',
-        hour: 7,
-        minute: 45,
-      },
-    ],
-  },
-  {
-    name: 'Productivity Sprint',
-    description: 'Deep work blocks with reminders to move and hydrate.',
-    tasks: [
-      {
-        title: 'Deep work block #1',
-        notes: 'Focus on your most important task.',
-        hour: 9,
-        minute: 0,
-      },
-      {
-        title: 'Hydration check-in',
-        notes: 'Drink a full glass of water.',
-        hour: 10,
-        minute: 30,
-      },
-      {
-        title: 'Reset walk',
-        notes: 'Step outside for a 10 minute reset.',
-        hour: 12,
-        minute: 0,
-      },
-    ],
-  },
-  {
-    name: 'Evening Wind Down',
-    description: 'Prepare tomorrow and unplug with intention.',
-    tasks: [
-      {
-        title: 'Tomorrow prep',
-        notes: 'Lay out clothes & top priorities.',
-        hour: 20,
-        minute: 0,
-      },
-      {
-        title: 'Digital sunset',
-        notes: 'Screens off and switch to warm lights.',
-        hour: 21,
-        minute: 0,
-      },
-      {
-        title: 'Gratitude journal',
-        notes: 'Capture three things that went well.',
-        hour: 21,
-        minute: 30,
-      },
-    ],
-  },
-];
-
-const createId = () =>
-  typeof crypto !== 'undefined' && 'randomUUID' in crypto
-    ? crypto.randomUUID()
-    : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+const defaultReminderDraft: ReminderDraft = {
+  offsets: DEFAULT_REMINDER_OFFSETS,
+  nagMinutes: null,
+  soundId: null,
+  breaksThroughDnd: false,
+};
 
 const toLocalInputValue = (date: Date) => {
   const copy = new Date(date.getTime());
@@ -129,33 +242,22 @@ const toLocalInputValue = (date: Date) => {
   return local.toISOString().slice(0, 16);
 };
 
-const getDefaultFormTime = () => {
+const getDefaultStart = () => {
   const now = new Date();
   now.setMinutes(now.getMinutes() + (5 - (now.getMinutes() % 5 || 5)));
   now.setSeconds(0, 0);
-  return toLocalInputValue(now);
+  return now;
 };
 
-const readTasks = (): Task[] => {
-  if (typeof window === 'undefined') {
-    return [];
-  }
-  const raw = window.localStorage.getItem(STORAGE_KEY);
-  if (!raw) {
-    return [];
-  }
-  try {
-    const parsed = JSON.parse(raw) as Task[];
-    return parsed
-      .filter((task) => !!task && !!task.id && !!task.scheduledFor && !!task.title)
-      .map((task) => ({
-        ...task,
-        notes: task.notes ?? '',
-        notifiedAt: task.notifiedAt ?? null,
-      }));
-  } catch {
-    return [];
-  }
+const getDefaultFormTime = (timeZone: string) => toZonedInputValue(getDefaultStart(), timeZone);
+
+const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
 };
 
 const sortTasks = (tasks: Task[]) =>
@@ -184,6 +286,16 @@ const describeRelativeTime = (scheduledFor: string, baseline: number) => {
 const formatClock = (iso: string) =>
   new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 
+const formatRange = (task: Task) =>
+  task.durationMinutes
+    ? `${formatClock(task.scheduledFor)}–${formatClock(taskEndsAt(task))}`
+    : formatClock(task.scheduledFor);
+
+const parseDuration = (value: string) => {
+  const minutes = Math.round(Number(value));
+  return minutes > 0 ? minutes : null;
+};
+
 const formatDateMeta = (iso: string) =>
   new Date(iso).toLocaleString([], {
     weekday: 'short',
@@ -197,22 +309,68 @@ export default function Home() {
   const [tasks, setTasks] = useState<Task[]>(() => sortTasks(readTasks()));
   const [formTitle, setFormTitle] = useState('');
   const [formNotes, setFormNotes] = useState('');
-  const [formTime, setFormTime] = useState(getDefaultFormTime);
+  const [zoneSettings, setZoneSettings] = useState<ZoneSettings>(readZoneSettings);
+  const [formTime, setFormTime] = useState(() => getDefaultFormTime(planningZone(zoneSettings)));
+  const [formDuration, setFormDuration] = useState('');
+  const [formTags, setFormTags] = useState('');
+  const [formPriority, setFormPriority] = useState<Priority>('normal');
+  const [formChecklist, setFormChecklist] = useState('');
+  const [formAutoComplete, setFormAutoComplete] = useState(false);
+  const [formRepeat, setFormRepeat] = useState<RecurrenceDraft>(emptyRecurrenceDraft);
+  const [formReminders, setFormReminders] = useState<ReminderDraft>(defaultReminderDraft);
+  const [seriesDraft, setSeriesDraft] = useState<SeriesDraft | null>(null);
+  const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
+  const [customTemplates, setCustomTemplates] = useState<Template[]>(readCustomTemplates);
+  const [showTemplateManager, setShowTemplateManager] = useState(false);
+  const [calendarStatus, setCalendarStatus] = useState<string | null>(null);
+  const [pendingRestore, setPendingRestore] = useState<PendingRestore | null>(null);
+  const [backupStatus, setBackupStatus] = useState<string | null>(null);
+  const [quarantineCount, setQuarantineCount] = useState(() => readQuarantine().length);
+  const [syncState, setSyncState] = useState<SyncState>('local');
+  const [soundSettings, setSoundSettings] = useState<SoundSettings>(readSoundSettings);
+  const [customSounds, setCustomSounds] = useState<CustomSound[]>(readCustomSounds);
+  const [showSoundSettings, setShowSoundSettings] = useState(false);
+  const [quietSettings, setQuietSettings] = useState<QuietSettings>(readQuietSettings);
+  const [showDoNotDisturb, setShowDoNotDisturb] = useState(false);
+  const [showTimeZone, setShowTimeZone] = useState(false);
+  const [showWebhooks, setShowWebhooks] = useState(false);
+  const [webhooks, setWebhooks] = useState<WebhookState | null>(null);
+  const [webhookStatus, setWebhookStatus] = useState<string | null>(null);
+  const [webhookFailures, setWebhookFailures] = useState(0);
+  const [showStats, setShowStats] = useState(false);
+  const [focusSettings, setFocusSettings] = useState<FocusSettings>(readFocusSettings);
+  const [focusSession, setFocusSession] = useState<FocusSession | null>(readFocusSession);
+  const [showPalette, setShowPalette] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+  const [history, setHistory] = useState<ActionHistory>(readHistory);
+  const [undoToast, setUndoToast] = useState<HistoryEntry | null>(null);
+  const [isAlarmLeader, setIsAlarmLeader] = useState(false);
   const [, forcePermissionRefresh] = useReducer((value: number) => value + 1, 0);
   const notificationSupported = typeof window !== 'undefined' && 'Notification' in window;
   const notificationPermission: NotificationPermission = notificationSupported
     ? window.Notification.permission
     : 'denied';
-  const [activeAlerts, setActiveAlerts] = useState<Alert[]>([]);
-  const [filter, setFilter] = useState<'all' | 'upcoming' | 'completed'>('all');
+  const [activeAlerts, setActiveAlerts] = useState<Alert[]>(readAlerts);
+  const [filter, setFilter] = useState<TaskFilter>(readUrlFilter);
+  const [tagColors, setTagColors] = useState<Record<string, TagColor>>(readTagColors);
+  const [view, setView] = useState<'list' | 'day' | 'week'>('list');
+  const [selectedDay, setSelectedDay] = useState<number | null>(() => startOfDay(Date.now()));
+  const [archive, setArchive] = useState<ArchivedDay[]>(readArchive);
+  const [rolloverMode, setRolloverMode] = useState<RolloverMode>(readRolloverMode);
   const [now, setNow] = useState(() => Date.now());
   const audioContextRef = useRef<AudioContext | null>(null);
+  const baseTitleRef = useRef<string | null>(null);
   const hasHydratedRef = useRef(false);
-
-  const persistTasks = useCallback((nextTasks: Task[]) => {
-    if (typeof window === 'undefined') return;
-    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(nextTasks));
-  }, []);
+  const titleInputRef = useRef<HTMLInputElement | null>(null);
+  const calendarInputRef = useRef<HTMLInputElement | null>(null);
+  const searchInputRef = useRef<HTMLInputElement | null>(null);
+  const backupInputRef = useRef<HTMLInputElement | null>(null);
+  const serverSyncRef = useRef<ServerSync | null>(null);
+  const tabChannelRef = useRef<TabChannel | null>(null);
+  const remoteTasksRef = useRef<Task[] | null>(null);
+  const alarmLeaderRef = useRef(false);
+  const webhookTasksRef = useRef<Task[] | null>(null);
 
   useEffect(() => {
     hasHydratedRef.current = true;
@@ -220,19 +378,168 @@ export default function Home() {
 
   useEffect(() => {
     if (!hasHydratedRef.current) return;
+    persistHistory(history);
+  }, [history]);
+
+  useEffect(() => {
+    if (!hasHydratedRef.current) return;
+    persistZoneSettings(zoneSettings);
+  }, [zoneSettings]);
+
+  useEffect(() => {
+    if (!undoToast) return;
+    const timer = window.setTimeout(() => setUndoToast(null), 8000);
+    return () => {
+      window.clearTimeout(timer);
+    };
+  }, [undoToast]);
+
+  useEffect(() => {
+    if (!hasHydratedRef.current) return;
+    // Another tab has already saved and announced this list.
+    if (tasks === remoteTasksRef.current) return;
     persistTasks(tasks);
-  }, [tasks, persistTasks]);
+    tabChannelRef.current?.post(tasks);
+  }, [tasks]);
+
+  useEffect(() => {
+    const channel = createTabChannel((remoteTasks) => {
+      const sorted = sortTasks(remoteTasks);
+      remoteTasksRef.current = sorted;
+      serverSyncRef.current?.adopt(sorted);
+      setTasks(sorted);
+    });
+    tabChannelRef.current = channel;
+    const resign = electAlarmLeader((leading) => {
+      alarmLeaderRef.current = leading;
+      setIsAlarmLeader(leading);
+    });
+    return () => {
+      channel.close();
+      resign();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!hasHydratedRef.current) return;
+    persistCustomTemplates(customTemplates);
+  }, [customTemplates]);
+
+  useEffect(() => {
+    if (!hasHydratedRef.current) return;
+    persistSoundSettings(soundSettings);
+  }, [soundSettings]);
+
+  useEffect(() => {
+    if (!hasHydratedRef.current) return;
+    persistQuietSettings(quietSettings);
+  }, [quietSettings]);
+
+  useEffect(() => {
+    if (!hasHydratedRef.current) return;
+    persistArchive(archive);
+  }, [archive]);
+
+  useEffect(() => {
+    if (!hasHydratedRef.current) return;
+    persistTagColors(tagColors);
+  }, [tagColors]);
+
+  useEffect(() => {
+    if (!hasHydratedRef.current) return;
+    persistFocusSettings(focusSettings);
+  }, [focusSettings]);
+
+  useEffect(() => {
+    if (!hasHydratedRef.current) return;
+    persistFocusSession(focusSession);
+  }, [focusSession]);
+
+  useEffect(() => {
+    if (!hasHydratedRef.current) return;
+    persistUrlFilter(filter);
+  }, [filter]);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      setFilter(readUrlFilter());
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => {
+      window.removeEventListener('popstate', handlePopState);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!hasHydratedRef.current) return;
+    persistRolloverMode(rolloverMode);
+  }, [rolloverMode]);
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
     const ticker = window.setInterval(() => {
       setNow(Date.now());
+      sendHeartbeat();
     }, 15000);
     return () => {
       window.clearInterval(ticker);
     };
   }, []);
 
+  useEffect(() => {
+    if (!isReminderWorkerSupported()) return;
+    const handleMessage = (event: MessageEvent<WorkerMessage>) => {
+      if (event.data?.type === 'events') {
+        requestWorkerEvents();
+        return;
+      }
+      if (event.data?.type !== 'sync' || event.data.events.length === 0) return;
+      if (!alarmLeaderRef.current) return;
+      const { events } = event.data;
+      setTasks((prev) => sortTasks(reconcileWorkerEvents(prev, events, Date.now())));
+      acknowledgeWorkerEvents(events.map((item) => item.id));
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    registerReminderWorker().then(() => {
+      requestWorkerEvents();
+    });
+    return () => {
+      navigator.serviceWorker.removeEventListener('message', handleMessage);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (isAlarmLeader && isReminderWorkerSupported()) {
+      requestWorkerEvents();
+    }
+  }, [isAlarmLeader]);
+
+  useEffect(() => {
+    if (!hasHydratedRef.current) return;
+    mirrorSchedule(tasks, quietSettings);
+  }, [quietSettings, tasks]);
+
+  useEffect(() => {
+    const sync = createServerSync({
+      onReplace: (serverTasks) => setTasks(sortTasks(serverTasks)),
+      onStateChange: setSyncState,
+    });
+    serverSyncRef.current = sync;
+    sync.refresh();
+    const handleFocus = () => {
+      sync.refresh();
+    };
+    window.addEventListener('focus', handleFocus);
+    return () => {
+      sync.stop();
+      window.removeEventListener('focus', handleFocus);
+    };
+  }, []);
+
+  useEffect(() => {
+    serverSyncRef.current?.track(tasks);
+  }, [tasks]);
+
   const ensureAudioContext = useCallback(() => {
     if (typeof window === 'undefined') return null;
     if (audioContextRef.current) return audioContextRef.current;
@@ -259,85 +566,394 @@ export default function Home() {
     };
   }, [ensureAudioContext]);
 
-  const playAlarm = useCallback(() => {
-    const ctx = ensureAudioContext();
-    if (!ctx) return;
-    const now = ctx.currentTime;
-    const oscillator = ctx.createOscillator();
-    const gain = ctx.createGain();
-    oscillator.type = 'sine';
-    oscillator.frequency.setValueAtTime(880, now);
-    oscillator.frequency.exponentialRampToValueAtTime(440, now + 0.5);
-    gain.gain.setValueAtTime(0.0001, now);
-    gain.gain.exponentialRampToValueAtTime(0.12, now + 0.05);
-    gain.gain.exponentialRampToValueAtTime(0.0001, now + 1.2);
-    oscillator.connect(gain);
-    gain.connect(ctx.destination);
-    oscillator.start();
-    oscillator.stop(now + 1.3);
-  }, [ensureAudioContext]);
+  const playAlarm = useCallback(
+    (soundId: string, volume: number) => {
+      const ctx = ensureAudioContext();
+      if (!ctx) return;
+      playSound(ctx, soundId, volume, customSounds).catch(() => undefined);
+    },
+    [customSounds, ensureAudioContext],
+  );
 
-  const pushAlert = useCallback((alert: Alert) => {
-    setActiveAlerts((prev) => [...prev, alert]);
-    if (typeof window !== 'undefined') {
-      window.setTimeout(() => {
-        setActiveAlerts((prev) => prev.filter((item) => item.id !== alert.id));
-      }, ALERT_DURATION_MS);
+  const handleCustomSoundsChange = useCallback((sounds: CustomSound[]) => {
+    if (!persistCustomSounds(sounds)) {
+      return false;
     }
+    setCustomSounds(sounds);
+    return true;
+  }, []);
+
+  const handleTestSound = useCallback(
+    (soundId: string) => {
+      ensureAudioContext()?.resume().catch(() => undefined);
+      playAlarm(soundId, soundSettings.volume);
+    },
+    [ensureAudioContext, playAlarm, soundSettings.volume],
+  );
+
+  // A newer reminder for the same task replaces the earlier alert.
+  const pushAlert = useCallback((alert: Alert) => {
+    setActiveAlerts((prev) => [...prev.filter((item) => item.taskId !== alert.taskId), alert]);
   }, []);
 
-  const triggerNotification = useCallback(
-    (task: Task) => {
-      const message = `${task.title} ${task.notes ? `• ${task.notes}` : ''}`.trim();
-      if (notificationSupported && notificationPermission === 'granted') {
-        new Notification('It is time!', {
-          body: message,
-          tag: task.id,
+  // Sound, system notification and the in-page alert each get the reminders that fire, so quiet
+  // hours can hold back the first two while the alert is still recorded.
+  const reminderSinks = useMemo<ReminderSink[]>(() => {
+    const isSilenced = ({ task, at }: Firing) =>
+      !task.breaksThroughDnd && isQuietAt(quietSettings, at);
+    const describe = (task: Task) =>
+      `${task.title} ${task.notes ? `• ${task.notes}` : ''}`.trim();
+    return [
+      (firing) => {
+        if (isSilenced(firing) || !notificationSupported || notificationPermission !== 'granted') {
+          return;
+        }
+        new Notification(firing.reminder.heading, {
+          body: describe(firing.task),
+          tag: firing.task.id,
         });
+      },
+      (firing) => {
+        if (isSilenced(firing)) return;
+        const soundId = resolveSoundId(firing.task.soundId, soundSettings, customSounds);
+        playAlarm(soundId, soundSettings.volume);
+      },
+      ({ task, reminder, at }) =>
+        pushAlert({
+          id: createId(),
+          taskId: task.id,
+          title: task.title,
+          heading: reminder.heading,
+          message: describe(task),
+          triggeredAt: at,
+          scheduledFor: task.scheduledFor,
+          soundId: resolveSoundId(task.soundId, soundSettings, customSounds),
+          silenced: isSilenced({ task, reminder, at }),
+        }),
+    ];
+  }, [
+    customSounds,
+    notificationPermission,
+    notificationSupported,
+    playAlarm,
+    pushAlert,
+    quietSettings,
+    soundSettings,
+  ]);
+
+  // The scheduler is rebuilt around each new list; what it stamps is merged into whatever the
+  // list has become by then.
+  useEffect(() => {
+    if (!isAlarmLeader) return;
+    const scheduler = createScheduler({
+      clock: systemClock,
+      sinks: reminderSinks,
+      onChange: (next) =>
+        setTasks((prev) => sortTasks(applyChanges(prev, diffTasks(tasks, next), 'redo'))),
+    });
+    scheduler.update(tasks);
+    return scheduler.stop;
+  }, [isAlarmLeader, reminderSinks, tasks]);
+
+  const pendingAlerts = useMemo(() => openAlerts(activeAlerts, tasks), [activeAlerts, tasks]);
+
+  useEffect(() => {
+    if (!hasHydratedRef.current) return;
+    persistAlerts(pendingAlerts);
+  }, [pendingAlerts]);
+
+  const refreshWebhooks = useCallback(() => {
+    fetchWebhooks()
+      .then(setWebhooks)
+      .catch((error: Error) => setWebhookStatus(error.message));
+  }, []);
+
+  useEffect(() => {
+    refreshWebhooks();
+  }, [refreshWebhooks]);
+
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === ALERTS_KEY) {
+        setActiveAlerts(readAlerts());
       }
-      if (typeof document !== 'undefined') {
-        document.title = `⏰ ${task.title} — Daily Planner`;
+      if (event.key === ARCHIVE_KEY) {
+        setArchive(readArchive());
       }
-      playAlarm();
-      pushAlert({
-        id: createId(),
-        taskId: task.id,
-        message,
-        triggeredAt: Date.now(),
-      });
+      if (event.key === ROLLOVER_KEY) {
+        setRolloverMode(readRolloverMode());
+      }
+      if (event.key === FOCUS_SESSION_KEY) {
+        setFocusSession(readFocusSession());
+      }
+      if (event.key === HISTORY_KEY) {
+        setHistory(readHistory());
+      }
+      if (event.key === ZONE_SETTINGS_KEY) {
+        setZoneSettings(readZoneSettings());
+      }
+      if (event.key === WEBHOOKS_CHANGED_KEY) {
+        refreshWebhooks();
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [refreshWebhooks]);
+
+  useEffect(() => {
+    if (baseTitleRef.current === null) {
+      baseTitleRef.current = document.title;
+    }
+    const latest = pendingAlerts[pendingAlerts.length - 1];
+    document.title = latest ? `⏰ ${latest.title} — Daily Planner` : baseTitleRef.current;
+  }, [pendingAlerts]);
+
+  const isQuiet = isQuietAt(quietSettings, now);
+  const quietStateRef = useRef<boolean | null>(null);
+
+  const deliverQuietSummary = useCallback(() => {
+    const held = pendingAlerts.filter((alert) => alert.silenced);
+    if (held.length === 0) return;
+    if (notificationSupported && notificationPermission === 'granted') {
+      new Notification(
+        `${held.length} ${held.length === 1 ? 'reminder' : 'reminders'} while you were away`,
+        { body: held.map((alert) => alert.title).join(', '), tag: 'quiet-summary' },
+      );
+    }
+    playAlarm(soundSettings.soundId, soundSettings.volume);
+    setActiveAlerts((prev) =>
+      prev.map((alert) => (alert.silenced ? { ...alert, silenced: false } : alert)),
+    );
+  }, [
+    notificationPermission,
+    notificationSupported,
+    pendingAlerts,
+    playAlarm,
+    soundSettings.soundId,
+    soundSettings.volume,
+  ]);
+
+  // Alerts held back during quiet time are announced together once it ends.
+  useEffect(() => {
+    if (!isAlarmLeader) return;
+    const check = () => {
+      const quiet = isQuietAt(quietSettings, Date.now());
+      if (quietStateRef.current && !quiet) {
+        deliverQuietSummary();
+      }
+      quietStateRef.current = quiet;
+    };
+    check();
+    const timer = window.setInterval(check, 15000);
+    return () => {
+      window.clearInterval(timer);
+    };
+  }, [deliverQuietSummary, isAlarmLeader, quietSettings]);
+
+  // Every user edit to the task list goes through here, so it can be undone and redone later.
+  const applyAction = useCallback(
+    (label: string, update: (prev: Task[]) => Task[], { toast = false } = {}) => {
+      const changes = diffTasks(tasks, update(tasks));
+      if (changes.length === 0) return;
+      const entry: HistoryEntry = { id: createId(), label, at: Date.now(), changes };
+      setTasks((prev) => sortTasks(applyChanges(prev, changes, 'redo')));
+      setHistory((prev) => recordEntry(prev, entry));
+      setUndoToast(toast ? entry : null);
+    },
+    [tasks],
+  );
+
+  const taskLabel = useCallback(
+    (taskId: string) => `“${tasks.find((task) => task.id === taskId)?.title ?? 'task'}”`,
+    [tasks],
+  );
+
+  const recordFocus = useCallback(
+    (taskId: string, minutes: number) => {
+      if (minutes <= 0) return;
+      applyAction(`Focus on ${taskLabel(taskId)}`, (prev) =>
+        prev.map((task) =>
+          task.id === taskId ? { ...task, focusMinutes: task.focusMinutes + minutes } : task,
+        ),
+      );
     },
-    [notificationPermission, notificationSupported, playAlarm, pushAlert],
+    [applyAction, taskLabel],
   );
 
+  const completeFocusPhase = useCallback(() => {
+    if (!focusSession) return;
+    const now = Date.now();
+    if (!isFocusPhaseOver(focusSession, now)) return;
+    const task = tasks.find((item) => item.id === focusSession.taskId);
+    if (!task) {
+      setFocusSession(null);
+      return;
+    }
+    if (focusSession.phase === 'work') {
+      recordFocus(task.id, focusedMinutes(focusSession, now));
+    }
+    const heading = focusSession.phase === 'work' ? 'Time for a break' : 'Back to focus';
+    if (notificationSupported && notificationPermission === 'granted') {
+      new Notification(heading, { body: task.title, tag: 'focus' });
+    }
+    playAlarm(soundSettings.soundId, soundSettings.volume);
+    setFocusSession(advanceFocus(focusSession, focusSettings, now));
+  }, [
+    focusSession,
+    focusSettings,
+    notificationPermission,
+    notificationSupported,
+    playAlarm,
+    recordFocus,
+    soundSettings.soundId,
+    soundSettings.volume,
+    tasks,
+  ]);
+
+  // Like reminders, focus phases only ring in the alarm tab.
   useEffect(() => {
-    if (typeof window === 'undefined') return;
-    const interval = window.setInterval(() => {
-      setTasks((prev) => {
-        const now = Date.now();
-        let changed = false;
-        const next = prev.map((task) => {
-          if (task.completed || task.notifiedAt) {
-            return task;
-          }
-          const scheduled = new Date(task.scheduledFor).getTime();
-          if (scheduled <= now) {
-            changed = true;
-            triggerNotification(task);
-            return { ...task, notifiedAt: new Date().toISOString() };
+    if (!isAlarmLeader || !focusSession) return;
+    const timer = window.setInterval(completeFocusPhase, 1000);
+    return () => {
+      window.clearInterval(timer);
+    };
+  }, [completeFocusPhase, focusSession, isAlarmLeader]);
+
+  const applyRollover = useCallback(() => {
+    const now = Date.now();
+    const result = rollOver(tasks, rolloverMode, now);
+    if (!result) return;
+    setArchive((prev) => archiveTasks(prev, result.archived, now));
+    setTasks(sortTasks(result.tasks));
+  }, [rolloverMode, tasks]);
+
+  const hasWebhooks = webhooks?.targets.some((target) => target.enabled) ?? false;
+  // Saved secrets come back masked, so the panel's drafts start over from whatever was saved.
+  const webhookPanelKey = webhooks ? JSON.stringify(webhooks.targets) : 'loading';
+
+  // Failures are counted on the header button until the panel is opened, and the log is reloaded
+  // so it shows what was just sent.
+  const sendWebhookNotices = useCallback(
+    (notices: TaskNotice[]) => {
+      dispatchWebhooks(notices)
+        .then(({ deliveries }) => {
+          const failed = deliveries.filter((delivery) => !delivery.ok).length;
+          if (failed > 0) {
+            setWebhookFailures((prev) => prev + failed);
+            setWebhookStatus(`${failed} of ${deliveries.length} deliveries failed`);
           }
-          return task;
+          refreshWebhooks();
+        })
+        .catch((error: Error) => {
+          setWebhookFailures((prev) => prev + notices.length);
+          setWebhookStatus(`Could not send webhooks: ${error.message}`);
         });
-        return changed ? sortTasks(next) : prev;
-      });
-    }, 15000);
+    },
+    [refreshWebhooks],
+  );
+
+  // Like alarms, webhook events are only sent from the alarm tab, which sees every change to the
+  // list whichever tab or device made it.
+  useEffect(() => {
+    if (!isAlarmLeader || !hasWebhooks) {
+      webhookTasksRef.current = null;
+      return;
+    }
+    const previous = webhookTasksRef.current;
+    webhookTasksRef.current = tasks;
+    if (!previous) return;
+    const notices = detectTaskEvents(previous, tasks, Date.now());
+    if (notices.length > 0) {
+      sendWebhookNotices(notices);
+    }
+  }, [hasWebhooks, isAlarmLeader, sendWebhookNotices, tasks]);
+
+  useEffect(() => {
+    if (!isAlarmLeader || !hasWebhooks) return;
+    const check = () => {
+      const { notices, sent } = collectOverdue(tasks, Date.now(), readOverdueSent());
+      if (notices.length === 0) return;
+      persistOverdueSent(sent);
+      sendWebhookNotices(notices);
+    };
+    check();
+    const timer = window.setInterval(check, 60000);
+    return () => {
+      window.clearInterval(timer);
+    };
+  }, [hasWebhooks, isAlarmLeader, sendWebhookNotices, tasks]);
+
+  const handleSaveWebhooks = useCallback((targets: WebhookTarget[]) => {
+    saveWebhookTargets(targets)
+      .then((state) => {
+        setWebhooks(state);
+        setWebhookStatus('Saved');
+        announceWebhooksChanged();
+      })
+      .catch((error: Error) => setWebhookStatus(error.message));
+  }, []);
+
+  const handleTestWebhook = useCallback(
+    (targetId: string) => {
+      setWebhookStatus('Sending a test delivery…');
+      dispatchWebhooks([sampleNotice(Date.now())], targetId)
+        .then(({ deliveries }) => {
+          const [delivery] = deliveries;
+          setWebhookStatus(delivery?.ok ? 'Test delivered' : `Test failed: ${delivery?.error}`);
+          refreshWebhooks();
+        })
+        .catch((error: Error) => setWebhookStatus(error.message));
+    },
+    [refreshWebhooks],
+  );
+
+  // Only the alarm tab rolls the day over, so two tabs never archive the same tasks.
+  useEffect(() => {
+    if (!isAlarmLeader) return;
+    const check = () => {
+      applyRollover();
+    };
+    check();
+    const timer = window.setInterval(check, 60000);
+    return () => {
+      window.clearInterval(timer);
+    };
+  }, [applyRollover, isAlarmLeader]);
+
+  // Escalation stops once the alert is handled or its task is completed or moved.
+  const escalatingAlert = useMemo(() => {
+    if (!soundSettings.escalate) return null;
+    const latest = pendingAlerts.filter((alert) => !alert.silenced).pop();
+    return latest && now - latest.triggeredAt < ESCALATION_LIMIT_MS ? latest : null;
+  }, [now, pendingAlerts, soundSettings.escalate]);
+
+  const recentAlerts = pendingAlerts.filter(
+    (alert) => alert === escalatingAlert || !isMissed(alert, now),
+  );
+  const missedAlerts = pendingAlerts.filter((alert) => !recentAlerts.includes(alert));
+
+  useEffect(() => {
+    if (!escalatingAlert) return;
+    let step = 0;
+    const timer = window.setInterval(() => {
+      step += 1;
+      playAlarm(escalatingAlert.soundId, Math.min(1, soundSettings.volume * (1 + step * 0.5)));
+    }, ESCALATION_INTERVAL_MS);
     return () => {
-      window.clearInterval(interval);
+      window.clearInterval(timer);
     };
-  }, [triggerNotification]);
+  }, [escalatingAlert, playAlarm, soundSettings.volume]);
+
+  const visibleTasks = useMemo(
+    () => tasks.filter((task) => isWithinRecurrenceWindow(task, now)),
+    [tasks, now],
+  );
 
   const upcomingTasks = useMemo(
-    () => tasks.filter((task) => !task.completed).sort((a, b) => new Date(a.scheduledFor).getTime() - new Date(b.scheduledFor).getTime()),
-    [tasks],
+    () => visibleTasks.filter((task) => !task.completed).sort((a, b) => new Date(a.scheduledFor).getTime() - new Date(b.scheduledFor).getTime()),
+    [visibleTasks],
   );
 
   const completedTasks = useMemo(
@@ -346,32 +962,112 @@ export default function Home() {
   );
 
   const filteredTasks = useMemo(() => {
-    switch (filter) {
+    switch (filter.status) {
       case 'upcoming':
-        return upcomingTasks;
+        return applyFilter(upcomingTasks, filter, now);
       case 'completed':
-        return completedTasks;
+        return applyFilter(completedTasks, filter, now);
       default:
-        return tasks;
+        return applyFilter(visibleTasks, filter, now);
     }
-  }, [filter, tasks, upcomingTasks, completedTasks]);
+  }, [filter, now, visibleTasks, upcomingTasks, completedTasks]);
+
+  const knownTags = useMemo(
+    () => [...new Set(tasks.flatMap((task) => task.tags))].sort(),
+    [tasks],
+  );
+
+  const dayTasks = useMemo(
+    () =>
+      selectedDay === null
+        ? filteredTasks
+        : filteredTasks.filter(
+            (task) => startOfDay(new Date(task.scheduledFor).getTime()) === selectedDay,
+          ),
+    [filteredTasks, selectedDay],
+  );
+
+  // A reset that was undone leaves its tasks in the archive too; they only show as live ones.
+  const dayArchive = useMemo(() => {
+    const day = selectedDay === null ? null : archivedDay(archive, selectedDay);
+    if (!day) return null;
+    const live = new Set(tasks.map((task) => task.id));
+    const archived = day.tasks.filter((task) => !live.has(task.id));
+    return archived.length > 0 ? { ...day, tasks: archived } : null;
+  }, [archive, selectedDay, tasks]);
+
+  const todayTasks = useMemo(() => {
+    const today = new Date(now).toDateString();
+    return sortTasks(tasks.filter((task) => new Date(task.scheduledFor).toDateString() === today));
+  }, [tasks, now]);
+
+  const conflicts = useMemo(() => findConflicts(tasks), [tasks]);
+
+  const stats = useMemo(
+    () => (showStats ? computeStats(tasks, archive, now) : null),
+    [archive, now, showStats, tasks],
+  );
+
+  // An edited task keeps the zone its time was typed in; new ones use the planning zone.
+  const device = deviceZone();
+  const formZone =
+    tasks.find((task) => task.id === editingTaskId)?.timeZone ?? planningZone(zoneSettings);
+
+  const formConflicts = useMemo(() => {
+    const start = fromZonedInputValue(formTime, formZone)?.getTime();
+    if (start === undefined || Number.isNaN(start)) return [];
+    const end = start + (parseDuration(formDuration) ?? 0) * 60000;
+    return findOverlaps({ id: editingTaskId, start, end }, tasks);
+  }, [editingTaskId, formDuration, formTime, formZone, tasks]);
 
   const nextTask = upcomingTasks[0];
+  const editingTask = editingTaskId ? tasks.find((task) => task.id === editingTaskId) : undefined;
   const progress =
     tasks.length === 0
       ? 0
       : Math.round((completedTasks.length / tasks.length) * 100);
 
+  const handleUndo = useCallback(() => {
+    const entry = history.past[history.past.length - 1];
+    if (!entry) return;
+    setTasks((prev) => sortTasks(applyChanges(prev, entry.changes, 'undo')));
+    setHistory(stepBack);
+    setUndoToast(null);
+  }, [history]);
+
+  const handleRedo = useCallback(() => {
+    const [entry] = history.future;
+    if (!entry) return;
+    setTasks((prev) => sortTasks(applyChanges(prev, entry.changes, 'redo')));
+    setHistory(stepForward);
+    setUndoToast(null);
+  }, [history]);
+
+  const resetForm = useCallback(() => {
+    setEditingTaskId(null);
+    setFormTitle('');
+    setFormNotes('');
+    setFormTime(getDefaultFormTime(planningZone(zoneSettings)));
+    setFormDuration('');
+    setFormTags('');
+    setFormPriority('normal');
+    setFormChecklist('');
+    setFormAutoComplete(false);
+    setFormRepeat(emptyRecurrenceDraft);
+    setFormReminders(defaultReminderDraft);
+  }, [zoneSettings]);
+
   const handleAddTask = useCallback(
     (event: FormEvent<HTMLFormElement>) => {
       event.preventDefault();
       if (!formTitle.trim() || !formTime) {
         return;
       }
-      const scheduled = new Date(formTime);
-      if (Number.isNaN(scheduled.getTime())) {
+      const scheduled = fromZonedInputValue(formTime, formZone);
+      if (!scheduled || Number.isNaN(scheduled.getTime())) {
         return;
       }
+      const rule = buildRecurrence(formRepeat, scheduled, seriesZone(zoneSettings));
       const newTask: Task = {
         id: createId(),
         title: formTitle.trim(),
@@ -380,34 +1076,266 @@ export default function Home() {
         completed: false,
         notifiedAt: null,
         createdAt: new Date().toISOString(),
+        series: rule
+          ? { id: createId(), title: formTitle.trim(), notes: formNotes.trim(), rule }
+          : null,
+        recurrenceId: rule ? scheduled.toISOString() : null,
+        icalUid: null,
+        durationMinutes: parseDuration(formDuration),
+        reminderOffsets: formReminders.offsets,
+        nagMinutes: formReminders.nagMinutes,
+        remindersSent: {},
+        soundId: formReminders.soundId,
+        breaksThroughDnd: formReminders.breaksThroughDnd,
+        completedAt: null,
+        snoozeCount: 0,
+        templateId: null,
+        tags: parseTags(formTags),
+        priority: formPriority,
+        checklist: parseChecklist(formChecklist),
+        autoComplete: formAutoComplete,
+        focusMinutes: 0,
+        timeZone: formZone,
       };
-      setTasks((prev) => sortTasks([...prev, newTask]));
-      setFormTitle('');
-      setFormNotes('');
-      setFormTime(getDefaultFormTime());
+      applyAction(`Add “${newTask.title}”`, (prev) => [...prev, newTask]);
+      resetForm();
+    },
+    [
+      applyAction,
+      formAutoComplete,
+      formChecklist,
+      formDuration,
+      formNotes,
+      formPriority,
+      formReminders,
+      formRepeat,
+      formTags,
+      formTime,
+      formTitle,
+      formZone,
+      resetForm,
+      zoneSettings,
+    ],
+  );
+
+  const handleQuickAdd = useCallback((parsed: QuickAddParse) => {
+    // Quick add reads times off the device's clock, like the phrases people type into it.
+    const scheduled = parsed.scheduledFor ? new Date(parsed.scheduledFor) : getDefaultStart();
+    const rule = buildRecurrence(parsed.recurrence, scheduled, seriesZone(zoneSettings));
+    const newTask: Task = {
+      id: createId(),
+      title: parsed.title,
+      notes: '',
+      scheduledFor: scheduled.toISOString(),
+      completed: false,
+      notifiedAt: null,
+      createdAt: new Date().toISOString(),
+      series: rule ? { id: createId(), title: parsed.title, notes: '', rule } : null,
+      recurrenceId: rule ? scheduled.toISOString() : null,
+      icalUid: null,
+      durationMinutes: parsed.durationMinutes,
+      reminderOffsets: [...DEFAULT_REMINDER_OFFSETS],
+      nagMinutes: null,
+      remindersSent: {},
+      soundId: null,
+      breaksThroughDnd: false,
+      completedAt: null,
+      snoozeCount: 0,
+      templateId: null,
+      tags: parsed.tags,
+      priority: parsed.priority,
+      checklist: [],
+      autoComplete: false,
+      focusMinutes: 0,
+      // A repeat pinned to the home zone is shown on that zone's clock, like its later occurrences.
+      timeZone: rule?.timeZone ?? deviceZone(),
+    };
+    applyAction(`Add “${newTask.title}”`, (prev) => [...prev, newTask]);
+  }, [applyAction, zoneSettings]);
+
+  const handleStartEdit = useCallback((task: Task) => {
+    setEditingTaskId(task.id);
+    setFormTitle(task.title);
+    setFormNotes(task.notes);
+    setFormTime(toZonedInputValue(new Date(task.scheduledFor), task.timeZone));
+    setFormDuration(task.durationMinutes ? String(task.durationMinutes) : '');
+    setFormTags(task.tags.join(', '));
+    setFormPriority(task.priority);
+    setFormChecklist(checklistText(task.checklist));
+    setFormAutoComplete(task.autoComplete);
+    setFormRepeat(toRecurrenceDraft(task.series?.rule ?? null));
+    setFormReminders({
+      offsets: task.reminderOffsets,
+      nagMinutes: task.nagMinutes,
+      soundId: task.soundId,
+      breaksThroughDnd: task.breaksThroughDnd,
+    });
+    titleInputRef.current?.focus();
+  }, []);
+
+  const handleUpdateTask = useCallback(
+    (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      if (!editingTaskId || !formTitle.trim() || !formTime) {
+        return;
+      }
+      const scheduled = fromZonedInputValue(formTime, formZone);
+      if (!scheduled || Number.isNaN(scheduled.getTime())) {
+        return;
+      }
+      applyAction(`Edit ${taskLabel(editingTaskId)}`, (prev) =>
+        sortTasks(
+          prev.map((task) => {
+            if (task.id !== editingTaskId) return task;
+            const scheduledFor = scheduled.toISOString();
+            const rule = task.series
+              ? null
+              : buildRecurrence(formRepeat, scheduled, seriesZone(zoneSettings));
+            return {
+              ...task,
+              title: formTitle.trim(),
+              notes: formNotes.trim(),
+              scheduledFor,
+              notifiedAt:
+                scheduledFor !== task.scheduledFor && scheduled.getTime() > Date.now()
+                  ? null
+                  : task.notifiedAt,
+              series: rule
+                ? { id: createId(), title: formTitle.trim(), notes: formNotes.trim(), rule }
+                : task.series,
+              recurrenceId: rule ? scheduledFor : task.recurrenceId,
+              durationMinutes: parseDuration(formDuration),
+              tags: parseTags(formTags),
+              priority: formPriority,
+              checklist: parseChecklist(formChecklist, task.checklist),
+              autoComplete: formAutoComplete,
+              reminderOffsets: formReminders.offsets,
+              nagMinutes: formReminders.nagMinutes,
+              soundId: formReminders.soundId,
+              breaksThroughDnd: formReminders.breaksThroughDnd,
+            };
+          }),
+        ),
+      );
+      resetForm();
     },
-    [formNotes, formTime, formTitle],
+    [
+      applyAction,
+      editingTaskId,
+      formAutoComplete,
+      formChecklist,
+      formDuration,
+      formNotes,
+      formPriority,
+      formReminders,
+      formRepeat,
+      formTags,
+      formTime,
+      formTitle,
+      formZone,
+      resetForm,
+      taskLabel,
+      zoneSettings,
+    ],
   );
 
   const handleToggleComplete = useCallback((taskId: string) => {
-    setTasks((prev) =>
-      prev.map((task) =>
+    applyAction(`Toggle ${taskLabel(taskId)}`, (prev) => {
+      const next = prev.map((task) =>
         task.id === taskId
           ? {
               ...task,
               completed: !task.completed,
+              completedAt: task.completed ? null : new Date().toISOString(),
             }
           : task,
-      ),
-    );
-  }, []);
+      );
+      const toggled = next.find((task) => task.id === taskId);
+      const occurrence =
+        toggled?.completed ? createNextOccurrence(toggled, next, Date.now()) : null;
+      return occurrence ? sortTasks([...next, occurrence]) : next;
+    });
+  }, [applyAction, taskLabel]);
 
-  const handleDeleteTask = useCallback((taskId: string) => {
-    setTasks((prev) => prev.filter((task) => task.id !== taskId));
-  }, []);
+  const handleToggleChecklistItem = useCallback((taskId: string, itemId: string) => {
+    applyAction(`Tick an item on ${taskLabel(taskId)}`, (prev) => {
+      const now = Date.now();
+      const target = prev.find((task) => task.id === taskId);
+      if (!target) return prev;
+      const updated = toggleChecklistItem(target, itemId, now);
+      const next = prev.map((task) => (task.id === taskId ? updated : task));
+      const occurrence =
+        updated.completed && !target.completed ? createNextOccurrence(updated, next, now) : null;
+      return sortTasks(occurrence ? [...next, occurrence] : next);
+    });
+  }, [applyAction, taskLabel]);
 
-  const handleSnoozeTask = useCallback((taskId: string, minutes = 5) => {
-    setTasks((prev) =>
+  const handleDeleteTask = useCallback((taskId: string) => {
+    if (taskId === editingTaskId) {
+      resetForm();
+    }
+    applyAction(
+      `Deleted ${taskLabel(taskId)}`,
+      (prev) => {
+        const target = prev.find((task) => task.id === taskId);
+        const rest = prev.filter((task) => task.id !== taskId);
+        const occurrence = target ? createNextOccurrence(target, rest, Date.now()) : null;
+        return occurrence ? sortTasks([...rest, occurrence]) : rest;
+      },
+      { toast: true },
+    );
+  }, [applyAction, editingTaskId, resetForm, taskLabel]);
+
+  const handleEditSeries = useCallback((task: Task) => {
+    if (!task.series) return;
+    setSeriesDraft({
+      series: task.series,
+      title: task.series.title,
+      notes: task.series.notes,
+      recurrence: toRecurrenceDraft(task.series.rule),
+    });
+  }, []);
+
+  const handleSaveSeries = useCallback(
+    (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      if (!seriesDraft || !seriesDraft.title.trim()) {
+        return;
+      }
+      const { series } = seriesDraft;
+      const rule = buildRecurrence(
+        seriesDraft.recurrence,
+        new Date(series.rule.startsAt),
+        series.rule.timeZone,
+      );
+      const updated: TaskSeries = {
+        ...series,
+        title: seriesDraft.title.trim(),
+        notes: seriesDraft.notes.trim(),
+        rule: rule ?? series.rule,
+      };
+      applyAction(`Edit the “${updated.title}” series`, (prev) =>
+        sortTasks(
+          rule ? updateSeries(prev, updated, Date.now()) : endSeries(prev, updated, Date.now()),
+        ),
+      );
+      setSeriesDraft(null);
+    },
+    [applyAction, seriesDraft],
+  );
+
+  const handleEndSeries = useCallback(
+    (series: TaskSeries) => {
+      applyAction(`End the “${series.title}” series`, (prev) =>
+        sortTasks(endSeries(prev, series, Date.now())),
+      );
+      setSeriesDraft(null);
+    },
+    [applyAction],
+  );
+
+  const handleSnoozeTask = useCallback((taskId: string, minutes = 5) => {
+    applyAction(`Snooze ${taskLabel(taskId)}`, (prev) =>
       sortTasks(
         prev.map((task) => {
           if (task.id !== taskId) return task;
@@ -418,21 +1346,110 @@ export default function Home() {
             scheduledFor: newDate.toISOString(),
             notifiedAt: null,
             completed: false,
+            completedAt: null,
+            snoozeCount: task.snoozeCount + 1,
           };
         }),
       ),
     );
+  }, [applyAction, taskLabel]);
+
+  const removeAlerts = useCallback((ids: string[]) => {
+    setActiveAlerts((prev) => prev.filter((item) => !ids.includes(item.id)));
+  }, []);
+
+  const handleAlertDone = useCallback(
+    (alert: Alert) => {
+      removeAlerts([alert.id]);
+      handleToggleComplete(alert.taskId);
+    },
+    [handleToggleComplete, removeAlerts],
+  );
+
+  const handleAlertSnooze = useCallback(
+    (alert: Alert, minutes: number) => {
+      removeAlerts([alert.id]);
+      handleSnoozeTask(alert.taskId, minutes);
+    },
+    [handleSnoozeTask, removeAlerts],
+  );
+
+  const handleStartFocus = useCallback(
+    (taskId: string) => {
+      const now = Date.now();
+      if (focusSession) {
+        recordFocus(focusSession.taskId, focusedMinutes(focusSession, now));
+      }
+      setFocusSession(startFocus(taskId, focusSettings, now));
+    },
+    [focusSession, focusSettings, recordFocus],
+  );
+
+  const handleStopFocus = useCallback(() => {
+    if (!focusSession) return;
+    recordFocus(focusSession.taskId, focusedMinutes(focusSession, Date.now()));
+    setFocusSession(null);
+  }, [focusSession, recordFocus]);
+
+  const handleSkipFocus = useCallback(() => {
+    if (!focusSession) return;
+    const now = Date.now();
+    recordFocus(focusSession.taskId, focusedMinutes(focusSession, now));
+    setFocusSession(advanceFocus(focusSession, focusSettings, now));
+  }, [focusSession, focusSettings, recordFocus]);
+
+  // Repeats already on the board are re-pinned, so the next occurrence they spawn follows the choice.
+  const handleZoneSettingsChange = useCallback((settings: ZoneSettings) => {
+    setZoneSettings(settings);
+    setTasks((prev) => pinSeries(prev, seriesZone(settings)));
+  }, []);
+
+  const handleFocusSettingsChange = useCallback((settings: FocusSettings) => {
+    setFocusSettings(settings);
+    setFocusSession((prev) => (prev ? resizeFocus(prev, settings) : prev));
   }, []);
 
+  const handleRescheduleTask = useCallback(
+    (taskId: string, start: number, durationMinutes: number | null) => {
+      applyAction(`Move ${taskLabel(taskId)}`, (prev) =>
+        sortTasks(
+          prev.map((task) =>
+            task.id === taskId ? rescheduleTask(task, start, durationMinutes, Date.now()) : task,
+          ),
+        ),
+      );
+    },
+    [applyAction, taskLabel],
+  );
+
+  const handleShiftFollowing = useCallback(
+    (taskId: string) => {
+      applyAction(`Shift tasks after ${taskLabel(taskId)}`, (prev) =>
+        sortTasks(shiftFollowingTasks(prev, taskId, Date.now())),
+      );
+    },
+    [applyAction, taskLabel],
+  );
+
+  const handleExtendTask = useCallback(
+    (taskId: string, minutes = 15) => {
+      applyAction(`Extend ${taskLabel(taskId)}`, (prev) =>
+        prev.map((task) =>
+          task.id === taskId
+            ? { ...task, durationMinutes: (task.durationMinutes ?? 0) + minutes }
+            : task,
+        ),
+      );
+    },
+    [applyAction, taskLabel],
+  );
+
   const handleApplyTemplate = useCallback((template: Template) => {
-    setTasks((prev) => {
-      const now = new Date();
+    const zone = planningZone(zoneSettings);
+    applyAction(`Apply ${template.name}`, (prev) => {
+      const now = Date.now();
       const additions = template.tasks.map((item) => {
-        const target = new Date(now);
-        target.setHours(item.hour, item.minute, 0, 0);
-        if (target.getTime() <= now.getTime()) {
-          target.setDate(target.getDate() + 1);
-        }
+        const target = nextWallClock(now, item.hour, item.minute, zone);
         return {
           id: createId(),
           title: item.title,
@@ -441,17 +1458,137 @@ export default function Home() {
           completed: false,
           notifiedAt: null,
           createdAt: new Date().toISOString(),
+          series: null,
+          recurrenceId: null,
+          icalUid: null,
+          durationMinutes: item.durationMinutes ?? null,
+          reminderOffsets: [...DEFAULT_REMINDER_OFFSETS],
+          nagMinutes: null,
+          remindersSent: {},
+          soundId: null,
+          breaksThroughDnd: false,
+          completedAt: null,
+          snoozeCount: 0,
+          templateId: template.id,
+          tags: [],
+          priority: 'normal',
+          checklist: checklistFromTexts(item.checklist ?? []),
+          autoComplete: false,
+          focusMinutes: 0,
+          timeZone: zone,
         } satisfies Task;
       });
       return sortTasks([...prev, ...additions]);
     });
-  }, []);
+  }, [applyAction, zoneSettings]);
 
+  // Everything on the board goes to the archive first, so a reset never loses history.
   const resetDay = useCallback(() => {
-    setTasks([]);
-    if (typeof window !== 'undefined') {
-      window.localStorage.removeItem(STORAGE_KEY);
-    }
+    setArchive((prev) => archiveTasks(prev, tasks, Date.now()));
+    applyAction('Reset the day', () => [], { toast: true });
+  }, [applyAction, tasks]);
+
+  // Picking a date range means looking across days, so the day navigator lets go.
+  const handleFilterChange = useCallback(
+    (next: TaskFilter) => {
+      if ((next.from && next.from !== filter.from) || (next.to && next.to !== filter.to)) {
+        setSelectedDay(null);
+      }
+      setFilter(next);
+    },
+    [filter.from, filter.to],
+  );
+
+  const handleExportCalendar = useCallback((items: Task[]) => {
+    if (items.length === 0) return;
+    const stamp = toLocalInputValue(new Date()).slice(0, 10);
+    downloadFile(`day-planner-${stamp}.ics`, exportCalendar(items), 'text/calendar');
+    setCalendarStatus(`Exported ${items.length} ${items.length === 1 ? 'event' : 'events'}.`);
+  }, []);
+
+  const handleImportCalendar = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (!file) return;
+      file
+        .text()
+        .then((text) => {
+          const events = parseCalendar(text);
+          if (events.length === 0) {
+            setCalendarStatus(`No events found in ${file.name}.`);
+            return;
+          }
+          const result = mergeCalendarEvents(tasks, events, Date.now());
+          applyAction(`Import ${file.name}`, () => sortTasks(result.tasks));
+          setCalendarStatus(`Imported ${result.added} new · updated ${result.updated} existing.`);
+        })
+        .catch(() => {
+          setCalendarStatus(`Could not read ${file.name}.`);
+        });
+    },
+    [applyAction, tasks],
+  );
+
+  const handleDownloadBackup = useCallback(() => {
+    const stamp = toLocalInputValue(new Date()).slice(0, 10);
+    downloadFile(
+      `day-planner-backup-${stamp}.json`,
+      JSON.stringify(createBackup(tasks, customTemplates), null, 2),
+      'application/json',
+    );
+    setBackupStatus(`Backed up ${tasks.length} ${tasks.length === 1 ? 'task' : 'tasks'}.`);
+  }, [customTemplates, tasks]);
+
+  const handleSelectBackup = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (!file) return;
+      file
+        .text()
+        .then((text) => {
+          const plan = planRestore(text, tasks);
+          if (!plan) {
+            setBackupStatus(`${file.name} is not a planner backup.`);
+            return;
+          }
+          setBackupStatus(null);
+          setPendingRestore({ fileName: file.name, plan });
+        })
+        .catch(() => {
+          setBackupStatus(`Could not read ${file.name}.`);
+        });
+    },
+    [tasks],
+  );
+
+  const handleApplyRestore = useCallback(
+    (mode: RestoreMode) => {
+      if (!pendingRestore) return;
+      const restored = applyRestore(tasks, customTemplates, pendingRestore.plan, mode);
+      applyAction(`Restore ${pendingRestore.fileName}`, () => sortTasks(restored.tasks), {
+        toast: mode === 'replace',
+      });
+      setCustomTemplates(restored.templates);
+      setQuarantineCount(readQuarantine().length);
+      setBackupStatus(`Restored ${pendingRestore.fileName} (${mode}).`);
+      setPendingRestore(null);
+    },
+    [applyAction, customTemplates, pendingRestore, tasks],
+  );
+
+  const handleDownloadQuarantine = useCallback(() => {
+    downloadFile(
+      'day-planner-quarantine.json',
+      JSON.stringify(readQuarantine(), null, 2),
+      'application/json',
+    );
+  }, []);
+
+  const handleClearQuarantine = useCallback(() => {
+    clearQuarantine();
+    setQuarantineCount(0);
   }, []);
 
   const requestNotificationPermission = useCallback(() => {
@@ -461,6 +1598,203 @@ export default function Home() {
     });
   }, [notificationSupported, forcePermissionRefresh]);
 
+  // Keyboard actions apply to the selected card, or to the next task when nothing is selected.
+  const targetTask = tasks.find((task) => task.id === selectedTaskId) ?? nextTask;
+
+  const moveSelection = useCallback(
+    (offset: number) => {
+      if (dayTasks.length === 0) return;
+      const index = dayTasks.findIndex((task) => task.id === selectedTaskId);
+      const nextIndex =
+        index < 0
+          ? offset > 0
+            ? 0
+            : dayTasks.length - 1
+          : Math.min(dayTasks.length - 1, Math.max(0, index + offset));
+      const id = dayTasks[nextIndex].id;
+      setSelectedTaskId(id);
+      document.getElementById(`task-${id}`)?.scrollIntoView({ block: 'nearest' });
+    },
+    [dayTasks, selectedTaskId],
+  );
+
+  const commands = useMemo<Command[]>(() => {
+    const onTarget = (action: (task: Task) => void) => {
+      if (targetTask) action(targetTask);
+    };
+    return [
+      {
+        id: 'new',
+        group: 'Task',
+        label: 'New task',
+        shortcut: 'n',
+        run: () => {
+          resetForm();
+          titleInputRef.current?.focus();
+        },
+      },
+      {
+        id: 'complete',
+        group: 'Task',
+        label: 'Complete or reopen the selected task',
+        shortcut: 'x',
+        run: () => onTarget((task) => handleToggleComplete(task.id)),
+      },
+      {
+        id: 'snooze',
+        group: 'Task',
+        label: 'Snooze the selected task 5 minutes',
+        shortcut: 's',
+        run: () => onTarget((task) => handleSnoozeTask(task.id)),
+      },
+      {
+        id: 'edit',
+        group: 'Task',
+        label: 'Edit the selected task',
+        shortcut: 'e',
+        run: () => onTarget(handleStartEdit),
+      },
+      {
+        id: 'focus',
+        group: 'Task',
+        label: 'Start a focus timer on the selected task',
+        shortcut: 'f',
+        run: () => onTarget((task) => handleStartFocus(task.id)),
+      },
+      {
+        id: 'delete',
+        group: 'Task',
+        label: 'Delete the selected task',
+        shortcut: 'Delete',
+        run: () => onTarget((task) => handleDeleteTask(task.id)),
+      },
+      {
+        id: 'select-next',
+        group: 'List',
+        label: 'Select the next task',
+        shortcut: 'j',
+        run: () => moveSelection(1),
+      },
+      {
+        id: 'select-previous',
+        group: 'List',
+        label: 'Select the previous task',
+        shortcut: 'k',
+        run: () => moveSelection(-1),
+      },
+      ...TASK_STATUSES.map((status, index) => ({
+        id: `filter-${status}`,
+        group: 'Filter',
+        label: `Show ${status === 'all' ? 'all' : status === 'completed' ? 'done' : status} tasks`,
+        shortcut: String(index + 1),
+        run: () => handleFilterChange({ ...filter, status }),
+      })),
+      {
+        id: 'search',
+        group: 'Filter',
+        label: 'Search tasks',
+        shortcut: '/',
+        run: () => searchInputRef.current?.focus(),
+      },
+      ...(['list', 'day', 'week'] as const).map((option) => ({
+        id: `view-${option}`,
+        group: 'View',
+        label: `Switch to the ${option} view`,
+        shortcut: option[0],
+        run: () => setView(option),
+      })),
+      {
+        id: 'today',
+        group: 'View',
+        label: 'Go to today',
+        shortcut: 't',
+        run: () => setSelectedDay(startOfDay(Date.now())),
+      },
+      {
+        id: 'undo',
+        group: 'Edit',
+        label: history.past.length
+          ? `Undo ${history.past[history.past.length - 1].label}`
+          : 'Undo (nothing to undo)',
+        run: handleUndo,
+      },
+      {
+        id: 'redo',
+        group: 'Edit',
+        label: history.future.length ? `Redo ${history.future[0].label}` : 'Redo (nothing to redo)',
+        run: handleRedo,
+      },
+      ...[...builtInTemplates, ...customTemplates].map((template) => ({
+        id: `template-${template.id}`,
+        group: 'Template',
+        label: `Apply ${template.name}`,
+        run: () => handleApplyTemplate(template),
+      })),
+      {
+        id: 'shortcuts',
+        group: 'Help',
+        label: 'Show keyboard shortcuts',
+        shortcut: '?',
+        run: () => setShowShortcuts(true),
+      },
+    ];
+  }, [
+    customTemplates,
+    filter,
+    handleApplyTemplate,
+    handleDeleteTask,
+    handleFilterChange,
+    handleRedo,
+    handleSnoozeTask,
+    handleStartEdit,
+    handleStartFocus,
+    handleToggleComplete,
+    handleUndo,
+    history,
+    moveSelection,
+    resetForm,
+    targetTask,
+  ]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isPaletteShortcut(event)) {
+        event.preventDefault();
+        setShowShortcuts(false);
+        setShowPalette((prev) => !prev);
+        return;
+      }
+      if (showPalette) return;
+      // Inputs keep the browser's own text undo.
+      if (!isTypingTarget(event.target) && (isUndoShortcut(event) || isRedoShortcut(event))) {
+        event.preventDefault();
+        if (isUndoShortcut(event)) {
+          handleUndo();
+        } else {
+          handleRedo();
+        }
+        return;
+      }
+      if (event.key === 'Escape') {
+        if (isTypingTarget(event.target)) {
+          (event.target as HTMLElement).blur();
+        }
+        setShowShortcuts(false);
+        setSelectedTaskId(null);
+        return;
+      }
+      if (showShortcuts || isTypingTarget(event.target)) return;
+      const command = findShortcut(commands, event);
+      if (!command) return;
+      event.preventDefault();
+      command.run();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [commands, handleRedo, handleUndo, showPalette, showShortcuts]);
+
   return (
     <div className="min-h-screen bg-slate-950 bg-gradient-to-br from-slate-900 via-slate-950 to-slate-900 text-slate-100">
       <div className="mx-auto flex max-w-5xl flex-col gap-8 px-6 py-10 md:px-10">
@@ -503,9 +1837,143 @@ export default function Home() {
                 ? 'Enable Notifications'
                 : 'Notifications Unsupported'}
             </button>
+            <button
+              type="button"
+              onClick={() => setShowSoundSettings((prev) => !prev)}
+              className="rounded-lg border border-white/15 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/30 hover:bg-white/10"
+            >
+              {showSoundSettings ? 'Hide sound settings' : 'Sound settings'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowStats((prev) => !prev)}
+              className="rounded-lg border border-white/15 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/30 hover:bg-white/10"
+            >
+              {showStats ? 'Hide stats' : 'Stats'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowShortcuts(true)}
+              title="Ctrl/⌘ K opens the command palette"
+              className="rounded-lg border border-white/15 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/30 hover:bg-white/10"
+            >
+              Shortcuts
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowDoNotDisturb((prev) => !prev)}
+              className={`rounded-lg border px-4 py-2 text-xs font-semibold uppercase tracking-wide transition ${
+                isQuiet
+                  ? 'border-sky-200/40 bg-sky-100/10 text-sky-200 hover:bg-sky-100/20'
+                  : 'border-white/15 text-slate-200 hover:border-white/30 hover:bg-white/10'
+              }`}
+            >
+              {isQuiet
+                ? `Quiet until ${new Date(quietUntil(quietSettings, now) ?? now).toLocaleTimeString([], {
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}`
+                : 'Do not disturb'}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setShowWebhooks((prev) => !prev);
+                setWebhookFailures(0);
+                refreshWebhooks();
+              }}
+              className="rounded-lg border border-white/15 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/30 hover:bg-white/10"
+            >
+              {showWebhooks
+                ? 'Hide webhooks'
+                : webhookFailures > 0
+                  ? `Webhooks · ${webhookFailures} failed`
+                  : 'Webhooks'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowTimeZone((prev) => !prev)}
+              className="rounded-lg border border-white/15 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/30 hover:bg-white/10"
+            >
+              {zoneSettings.mode === 'home' && zoneSettings.homeZone !== device
+                ? `Home time · ${formatInZone(new Date(now), zoneSettings.homeZone)}`
+                : 'Time zone'}
+            </button>
+            <span className="text-[0.65rem] uppercase tracking-[0.3em] text-slate-400">
+              {syncState === 'synced'
+                ? 'Saved to server'
+                : syncState === 'syncing'
+                ? 'Syncing…'
+                : syncState === 'offline'
+                ? 'Offline · saved on this device'
+                : 'Saved on this device'}
+            </span>
           </div>
         </header>
 
+        {showDoNotDisturb ? (
+          <DoNotDisturbPanel
+            settings={quietSettings}
+            now={now}
+            onChange={setQuietSettings}
+            onClose={() => setShowDoNotDisturb(false)}
+          />
+        ) : null}
+
+        {showTimeZone ? (
+          <TimeZonePanel
+            settings={zoneSettings}
+            now={now}
+            onChange={handleZoneSettingsChange}
+            onClose={() => setShowTimeZone(false)}
+          />
+        ) : null}
+
+        {showWebhooks ? (
+          <WebhookPanel
+            key={webhookPanelKey}
+            targets={webhooks?.targets ?? []}
+            deliveries={webhooks?.deliveries ?? []}
+            status={webhookStatus}
+            onSave={handleSaveWebhooks}
+            onTest={handleTestWebhook}
+            onRefresh={refreshWebhooks}
+            onClose={() => setShowWebhooks(false)}
+          />
+        ) : null}
+
+        {showSoundSettings ? (
+          <SoundSettingsPanel
+            settings={soundSettings}
+            customSounds={customSounds}
+            onChange={setSoundSettings}
+            onCustomSoundsChange={handleCustomSoundsChange}
+            onTest={handleTestSound}
+            onClose={() => setShowSoundSettings(false)}
+          />
+        ) : null}
+
+        {stats ? (
+          <StatsPanel
+            stats={stats}
+            templates={[...builtInTemplates, ...customTemplates]}
+            onClose={() => setShowStats(false)}
+          />
+        ) : null}
+
+        {focusSession ? (
+          <FocusTimer
+            session={focusSession}
+            title={tasks.find((task) => task.id === focusSession.taskId)?.title ?? 'Focus'}
+            settings={focusSettings}
+            onSettingsChange={handleFocusSettingsChange}
+            onPause={() => setFocusSession((prev) => prev && pauseFocus(prev, Date.now()))}
+            onResume={() => setFocusSession((prev) => prev && resumeFocus(prev, Date.now()))}
+            onSkip={handleSkipFocus}
+            onStop={handleStopFocus}
+          />
+        ) : null}
+
         {nextTask ? (
           <section className="flex flex-col gap-4 rounded-3xl border border-amber-200/20 bg-amber-200/10 p-6 text-amber-50 shadow-xl shadow-amber-500/10 backdrop-blur">
             <div className="flex items-center gap-2 text-sm uppercase tracking-wider text-amber-200/80">
@@ -520,9 +1988,15 @@ export default function Home() {
                 <p className="text-sm text-amber-100/90">{nextTask.notes}</p>
               ) : null}
             </div>
+            {nextTask.checklist.length > 0 ? (
+              <Checklist
+                items={nextTask.checklist}
+                onToggle={(itemId) => handleToggleChecklistItem(nextTask.id, itemId)}
+              />
+            ) : null}
             <div className="flex flex-wrap items-center gap-4 text-sm text-amber-100/80">
               <div className="flex items-center gap-2 rounded-full border border-amber-300/30 bg-amber-200/10 px-3 py-1">
-                <span className="font-semibold">{formatClock(nextTask.scheduledFor)}</span>
+                <span className="font-semibold">{formatRange(nextTask)}</span>
                 <span className="h-1 w-1 rounded-full bg-amber-300/70" />
                 <span>{describeRelativeTime(nextTask.scheduledFor, now)}</span>
               </div>
@@ -533,93 +2007,229 @@ export default function Home() {
               >
                 Snooze 5 min
               </button>
+              {focusSession?.taskId !== nextTask.id ? (
+                <button
+                  type="button"
+                  onClick={() => handleStartFocus(nextTask.id)}
+                  className="rounded-full border border-amber-200/40 px-4 py-1 text-xs font-semibold uppercase tracking-widest hover:bg-amber-200/20"
+                >
+                  Focus
+                </button>
+              ) : null}
             </div>
           </section>
         ) : null}
 
-        {activeAlerts.length > 0 ? (
-          <section className="space-y-3 rounded-3xl border border-emerald-300/20 bg-emerald-200/10 p-5 text-emerald-50 shadow-lg shadow-emerald-500/10">
-            {activeAlerts.map((alert) => (
-              <div
-                key={alert.id}
-                className="flex flex-col gap-2 rounded-2xl border border-emerald-300/20 bg-emerald-300/10 px-4 py-3 text-sm"
-              >
-                <div className="flex items-center justify-between text-xs uppercase tracking-[0.3em] text-emerald-200/80">
-                  <span>Alarm triggered</span>
-                  <span>{new Date(alert.triggeredAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
-                </div>
-                <p className="text-base font-semibold leading-tight text-emerald-50">
-                  {alert.message}
-                </p>
-              </div>
-            ))}
-          </section>
+        {recentAlerts.length > 0 ? (
+          <AlertList
+            alerts={recentAlerts}
+            missed={false}
+            onDone={handleAlertDone}
+            onSnooze={handleAlertSnooze}
+            onDismiss={(alert) => removeAlerts([alert.id])}
+          />
+        ) : null}
+
+        {missedAlerts.length > 0 ? (
+          <AlertList
+            alerts={missedAlerts}
+            missed
+            onDone={handleAlertDone}
+            onSnooze={handleAlertSnooze}
+            onDismiss={(alert) => removeAlerts([alert.id])}
+            onDismissAll={() => removeAlerts(missedAlerts.map((alert) => alert.id))}
+          />
         ) : null}
 
         <section className="grid gap-6 rounded-3xl border border-white/10 bg-white/5 p-6 backdrop-blur lg:grid-cols-[2fr,3fr]">
-          <form className="flex flex-col gap-4 rounded-2xl border border-white/10 bg-black/30 p-5" onSubmit={handleAddTask}>
-            <div>
-              <label className="text-xs font-semibold uppercase tracking-[0.4em] text-slate-300">
-                Activity title
-              </label>
-              <input
-                value={formTitle}
-                onChange={(event) => setFormTitle(event.target.value)}
-                placeholder="Plan focused work block"
-                className="mt-2 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-3 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
-                required
-              />
-            </div>
+          <div className="flex flex-col gap-4">
+            <QuickAdd now={now} onAdd={handleQuickAdd} />
+            <form className="flex flex-col gap-4 rounded-2xl border border-white/10 bg-black/30 p-5" onSubmit={editingTaskId ? handleUpdateTask : handleAddTask}>
+              <div>
+                <label className="text-xs font-semibold uppercase tracking-[0.4em] text-slate-300">
+                  Activity title
+                </label>
+                <input
+                  ref={titleInputRef}
+                  value={formTitle}
+                  onChange={(event) => setFormTitle(event.target.value)}
+                  placeholder="Plan focused work block"
+                  className="mt-2 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-3 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
+                  required
+                />
+              </div>
 
-            <div>
-              <label className="text-xs font-semibold uppercase tracking-[0.4em] text-slate-300">
-                Notes
-              </label>
-              <textarea
-                value={formNotes}
-                onChange={(event) => setFormNotes(event.target.value)}
-                placeholder="Resources, intention, or prep checklist…"
-                rows={3}
-                className="mt-2 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-3 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
-              />
-            </div>
+              <div>
+                <label className="text-xs font-semibold uppercase tracking-[0.4em] text-slate-300">
+                  Notes
+                </label>
+                <textarea
+                  value={formNotes}
+                  onChange={(event) => setFormNotes(event.target.value)}
+                  placeholder="Resources, intention, or prep checklist…"
+                  rows={3}
+                  className="mt-2 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-3 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
+                />
+              </div>
 
-            <div>
-              <label className="text-xs font-semibold uppercase tracking-[0.4em] text-slate-300">
-                Time
-              </label>
-              <input
-                type="datetime-local"
-                value={formTime}
-                onChange={(event) => setFormTime(event.target.value)}
-                className="mt-2 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-3 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
-                required
+              <div className="grid grid-cols-[1fr_auto] gap-3">
+                <div>
+                  <label className="text-xs font-semibold uppercase tracking-[0.4em] text-slate-300">
+                    Tags
+                  </label>
+                  <input
+                    value={formTags}
+                    onChange={(event) => setFormTags(event.target.value)}
+                    placeholder="work, errands"
+                    className="mt-2 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-3 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs font-semibold uppercase tracking-[0.4em] text-slate-300">
+                    Priority
+                  </label>
+                  <select
+                    value={formPriority}
+                    onChange={(event) => setFormPriority(event.target.value as Priority)}
+                    className="mt-2 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-3 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
+                  >
+                    {PRIORITIES.map((priority) => (
+                      <option key={priority} value={priority}>
+                        {priority[0].toUpperCase() + priority.slice(1)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="text-xs font-semibold uppercase tracking-[0.4em] text-slate-300">
+                  Checklist
+                </label>
+                <textarea
+                  value={formChecklist}
+                  onChange={(event) => setFormChecklist(event.target.value)}
+                  placeholder="One item per line"
+                  rows={3}
+                  className="mt-2 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-3 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
+                />
+                {formChecklist.trim() ? (
+                  <label className="mt-2 flex items-center gap-3 text-sm text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={formAutoComplete}
+                      onChange={(event) => setFormAutoComplete(event.target.checked)}
+                      className="h-4 w-4 accent-emerald-400"
+                    />
+                    Mark the task done when every item is ticked
+                  </label>
+                ) : null}
+              </div>
+
+              <div>
+                <label className="text-xs font-semibold uppercase tracking-[0.4em] text-slate-300">
+                  Time
+                </label>
+                <input
+                  type="datetime-local"
+                  value={formTime}
+                  onChange={(event) => setFormTime(event.target.value)}
+                  className="mt-2 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-3 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
+                  required
+                />
+                {formZone !== device ? (
+                  <p className="mt-2 text-xs text-sky-200/80">In {zoneLabel(formZone, now)}</p>
+                ) : null}
+              </div>
+
+              <div>
+                <label className="text-xs font-semibold uppercase tracking-[0.4em] text-slate-300">
+                  Duration (min)
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  step={5}
+                  value={formDuration}
+                  onChange={(event) => setFormDuration(event.target.value)}
+                  placeholder="Optional"
+                  className="mt-2 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-3 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
+                />
+              </div>
+
+              {formConflicts.length > 0 ? (
+                <p className="rounded-xl border border-amber-300/30 bg-amber-200/10 px-3 py-2 text-xs text-amber-100">
+                  Overlaps with{' '}
+                  {formConflicts.map((task) => `${task.title} (${formatRange(task)})`).join(', ')}.
+                </p>
+              ) : null}
+
+              {editingTask?.series ? (
+                <p className="text-xs text-sky-200/80">
+                  Changes apply to this occurrence only. Use “Edit series” on the card to
+                  change every occurrence.
+                </p>
+              ) : (
+                <RecurrenceFields value={formRepeat} onChange={setFormRepeat} />
+              )}
+
+              <ReminderFields
+                value={formReminders}
+                sounds={[...soundPresets, ...customSounds]}
+                onChange={setFormReminders}
               />
-            </div>
 
-            <button
-              type="submit"
-              className="mt-2 rounded-xl bg-emerald-500 px-4 py-3 text-sm font-semibold uppercase tracking-[0.3em] text-emerald-950 transition hover:bg-emerald-400"
-            >
-              Add to plan
-            </button>
+              <button
+                type="submit"
+                className="mt-2 rounded-xl bg-emerald-500 px-4 py-3 text-sm font-semibold uppercase tracking-[0.3em] text-emerald-950 transition hover:bg-emerald-400"
+              >
+                {editingTaskId ? 'Save changes' : 'Add to plan'}
+              </button>
+              {editingTaskId ? (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="rounded-xl border border-white/15 px-4 py-2 text-xs font-semibold uppercase tracking-[0.3em] text-slate-300 transition hover:border-white/30 hover:bg-white/10"
+                >
+                  Cancel editing
+                </button>
+              ) : null}
 
-            <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-slate-400">
-              <span className="font-semibold uppercase tracking-[0.4em] text-slate-300">
-                Templates
-              </span>
-              {templates.map((template) => (
+              <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-slate-400">
+                <span className="font-semibold uppercase tracking-[0.4em] text-slate-300">
+                  Templates
+                </span>
+                {builtInTemplates.map((template) => (
+                  <button
+                    key={template.id}
+                    type="button"
+                    onClick={() => handleApplyTemplate(template)}
+                    className="rounded-full border border-white/15 bg-white/10 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:border-white/30 hover:bg-white/20"
+                  >
+                    {template.name}
+                  </button>
+                ))}
+                {customTemplates.map((template) => (
+                  <button
+                    key={template.id}
+                    type="button"
+                    onClick={() => handleApplyTemplate(template)}
+                    title={template.description || undefined}
+                    className="rounded-full border border-emerald-300/30 bg-emerald-300/10 px-3 py-1 text-xs font-semibold text-emerald-100 transition hover:border-emerald-300/60 hover:bg-emerald-300/20"
+                  >
+                    {template.name}
+                  </button>
+                ))}
                 <button
-                  key={template.name}
                   type="button"
-                  onClick={() => handleApplyTemplate(template)}
-                  className="rounded-full border border-white/15 bg-white/10 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:border-white/30 hover:bg-white/20"
+                  onClick={() => setShowTemplateManager((prev) => !prev)}
+                  className="rounded-full border border-dashed border-white/20 px-3 py-1 text-xs font-semibold text-slate-300 transition hover:border-white/40 hover:text-slate-100"
                 >
-                  {template.name}
+                  {showTemplateManager ? 'Hide manager' : 'Manage'}
                 </button>
-              ))}
-            </div>
-          </form>
+              </div>
+            </form>
+          </div>
 
           <div className="flex flex-col gap-4">
             <div className="flex flex-wrap items-center justify-between gap-2">
@@ -631,138 +2241,425 @@ export default function Home() {
               <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-[0.3em]">
                 <button
                   type="button"
-                  onClick={() => setFilter('all')}
-                  className={`rounded-full border px-3 py-1 transition ${
-                    filter === 'all'
-                      ? 'border-emerald-400 bg-emerald-400/20 text-emerald-200'
-                      : 'border-white/10 bg-white/10 text-slate-300 hover:border-white/20 hover:bg-white/15'
-                  }`}
-                >
-                  All
-                </button>
-                <button
-                  type="button"
-                  onClick={() => setFilter('upcoming')}
-                  className={`rounded-full border px-3 py-1 transition ${
-                    filter === 'upcoming'
-                      ? 'border-emerald-400 bg-emerald-400/20 text-emerald-200'
-                      : 'border-white/10 bg-white/10 text-slate-300 hover:border-white/20 hover:bg-white/15'
-                  }`}
+                  onClick={resetDay}
+                  className="rounded-full border border-rose-400/60 bg-rose-400/20 px-3 py-1 text-rose-100 transition hover:bg-rose-400/30"
                 >
-                  Upcoming
+                  Reset day
                 </button>
+              </div>
+            </div>
+
+            <FilterBar
+              filter={filter}
+              searchRef={searchInputRef}
+              tags={knownTags}
+              tagColors={tagColors}
+              onChange={handleFilterChange}
+              onTagColorChange={(tag, color) => setTagColors((prev) => ({ ...prev, [tag]: color }))}
+            />
+
+            <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+              <span className="font-semibold uppercase tracking-[0.4em] text-slate-300">
+                Calendar
+              </span>
+              <button
+                type="button"
+                onClick={() => handleExportCalendar(tasks)}
+                disabled={tasks.length === 0}
+                className="rounded-full border border-white/15 bg-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-white/30 hover:bg-white/20 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                Export all .ics
+              </button>
+              <button
+                type="button"
+                onClick={() => handleExportCalendar(filteredTasks)}
+                disabled={filteredTasks.length === 0 || serializeFilter(filter) === ''}
+                className="rounded-full border border-white/15 bg-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-white/30 hover:bg-white/20 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                Export view .ics
+              </button>
+              <button
+                type="button"
+                onClick={() => calendarInputRef.current?.click()}
+                className="rounded-full border border-white/15 bg-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-white/30 hover:bg-white/20"
+              >
+                Import .ics
+              </button>
+              <input
+                ref={calendarInputRef}
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={handleImportCalendar}
+                className="hidden"
+              />
+              {calendarStatus ? <span>{calendarStatus}</span> : null}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+              <span className="font-semibold uppercase tracking-[0.4em] text-slate-300">
+                Backup
+              </span>
+              <button
+                type="button"
+                onClick={handleDownloadBackup}
+                className="rounded-full border border-white/15 bg-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-white/30 hover:bg-white/20"
+              >
+                Download .json
+              </button>
+              <button
+                type="button"
+                onClick={() => backupInputRef.current?.click()}
+                className="rounded-full border border-white/15 bg-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-white/30 hover:bg-white/20"
+              >
+                Restore
+              </button>
+              <input
+                ref={backupInputRef}
+                type="file"
+                accept=".json,application/json"
+                onChange={handleSelectBackup}
+                className="hidden"
+              />
+              {quarantineCount > 0 ? (
+                <span className="flex items-center gap-2 text-amber-200">
+                  {quarantineCount} quarantined
+                  <button type="button" onClick={handleDownloadQuarantine} className="underline">
+                    Download
+                  </button>
+                  <button type="button" onClick={handleClearQuarantine} className="underline">
+                    Clear
+                  </button>
+                </span>
+              ) : null}
+              {backupStatus ? <span>{backupStatus}</span> : null}
+            </div>
+
+            {pendingRestore ? (
+              <RestorePreview
+                fileName={pendingRestore.fileName}
+                plan={pendingRestore.plan}
+                onApply={handleApplyRestore}
+                onCancel={() => setPendingRestore(null)}
+              />
+            ) : null}
+
+            <DayNavigator
+              day={selectedDay}
+              step={view === 'week' ? 7 : 1}
+              now={now}
+              rolloverMode={rolloverMode}
+              onChange={setSelectedDay}
+              onRolloverChange={setRolloverMode}
+            />
+
+            <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-[0.3em]">
+              {(['list', 'day', 'week'] as const).map((option) => (
                 <button
+                  key={option}
                   type="button"
-                  onClick={() => setFilter('completed')}
+                  onClick={() => setView(option)}
                   className={`rounded-full border px-3 py-1 transition ${
-                    filter === 'completed'
+                    view === option
                       ? 'border-emerald-400 bg-emerald-400/20 text-emerald-200'
                       : 'border-white/10 bg-white/10 text-slate-300 hover:border-white/20 hover:bg-white/15'
                   }`}
                 >
-                  Done
+                  {option}
                 </button>
-                <button
-                  type="button"
-                  onClick={resetDay}
-                  className="rounded-full border border-rose-400/60 bg-rose-400/20 px-3 py-1 text-rose-100 transition hover:bg-rose-400/30"
-                >
-                  Reset day
-                </button>
-              </div>
+              ))}
             </div>
 
-            <div className="flex flex-col gap-3">
-              {filteredTasks.length === 0 ? (
-                <div className="rounded-2xl border border-white/10 bg-black/30 p-6 text-center text-sm text-slate-400">
-                  Nothing to show here. Add activities or load a template to get
-                  started.
-                </div>
-              ) : null}
+            {view !== 'list' ? (
+              <CalendarView
+                mode={view}
+                anchor={selectedDay ?? startOfDay(now)}
+                tasks={filteredTasks}
+                now={now}
+                onReschedule={handleRescheduleTask}
+                onSelect={handleStartEdit}
+              />
+            ) : (
+              <div className="flex flex-col gap-3">
+                {dayTasks.length === 0 ? (
+                  <div className="rounded-2xl border border-white/10 bg-black/30 p-6 text-center text-sm text-slate-400">
+                    Nothing to show here. Add activities or load a template to get
+                    started.
+                  </div>
+                ) : null}
 
-              {filteredTasks.map((task) => {
-                const scheduledTime = new Date(task.scheduledFor);
-                const isOverdue = !task.completed && scheduledTime.getTime() < now;
-                const wasNotified = Boolean(task.notifiedAt);
-                return (
-                  <article
-                    key={task.id}
-                    className="rounded-2xl border border-white/10 bg-black/40 p-5 transition hover:border-emerald-400/40"
-                  >
-                    <div className="flex flex-wrap items-center justify-between gap-2">
-                      <div className="flex items-center gap-3">
+                {dayTasks.map((task) => {
+                  const scheduledTime = new Date(task.scheduledFor);
+                  const isOverdue = !task.completed && scheduledTime.getTime() < now;
+                  const sentReminders = sentReminderLabels(task);
+                  const isEditingSeries = !!task.series && seriesDraft?.series.id === task.series.id;
+                  const overlapping = conflicts.get(task.id) ?? [];
+                  const pushesFollowing = overlapping.some(
+                    (other) => new Date(other.scheduledFor).getTime() >= scheduledTime.getTime(),
+                  );
+                  const isRunningLong =
+                    !!task.durationMinutes && !task.completed && scheduledTime.getTime() <= now;
+                  return (
+                    <article
+                      key={task.id}
+                      id={`task-${task.id}`}
+                      className={`rounded-2xl border bg-black/40 p-5 transition hover:border-emerald-400/40 ${
+                        task.id === editingTaskId ? 'border-emerald-400/60' : 'border-white/10'
+                      } ${task.id === selectedTaskId ? 'ring-2 ring-emerald-300/60' : ''}`}
+                    >
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <div className="flex items-center gap-3">
+                          <button
+                            type="button"
+                            onClick={() => handleToggleComplete(task.id)}
+                            className={`flex h-6 w-6 items-center justify-center rounded-full border text-xs font-bold transition ${
+                              task.completed
+                                ? 'border-emerald-400 bg-emerald-400 text-emerald-950'
+                                : 'border-white/20 bg-black/60 text-slate-300 hover:border-white/40'
+                            }`}
+                            aria-label={`Mark ${task.title} as ${task.completed ? 'pending' : 'done'}`}
+                          >
+                            {task.completed ? '✓' : ''}
+                          </button>
+                          <div>
+                            <h3 className="flex items-center gap-2 text-lg font-semibold text-slate-100">
+                              {task.title}
+                              {task.priority !== 'normal' ? (
+                                <span
+                                  className={`rounded-full border px-2 py-0.5 text-[0.65rem] uppercase tracking-[0.3em] ${
+                                    task.priority === 'high'
+                                      ? 'border-rose-300/40 bg-rose-300/10 text-rose-100'
+                                      : 'border-white/15 bg-white/5 text-slate-400'
+                                  }`}
+                                >
+                                  {task.priority}
+                                </span>
+                              ) : null}
+                            </h3>
+                            {task.notes ? (
+                              <p className="text-sm text-slate-400">{task.notes}</p>
+                            ) : null}
+                            {task.tags.length > 0 ? (
+                              <div className="mt-2 flex flex-wrap gap-1 text-xs">
+                                {task.tags.map((tag) => (
+                                  <button
+                                    key={tag}
+                                    type="button"
+                                    onClick={() =>
+                                      handleFilterChange({
+                                        ...filter,
+                                        tags: filter.tags.includes(tag) ? filter.tags : [...filter.tags, tag],
+                                      })
+                                    }
+                                    className={`rounded-full border px-2 py-0.5 ${
+                                      tagColorClasses[tagColor(tag, tagColors)]
+                                    }`}
+                                  >
+                                    #{tag}
+                                  </button>
+                                ))}
+                              </div>
+                            ) : null}
+                            {task.checklist.length > 0 ? (
+                              <div className="mt-3 text-slate-300">
+                                <Checklist
+                                  items={task.checklist}
+                                  onToggle={(itemId) => handleToggleChecklistItem(task.id, itemId)}
+                                />
+                              </div>
+                            ) : null}
+                          </div>
+                        </div>
+
+                        <div className="flex flex-col items-end gap-2 text-xs text-slate-300">
+                          <span
+                            className={`flex items-center gap-2 rounded-full border px-3 py-1 ${
+                              task.completed
+                                ? 'border-emerald-500/40 bg-emerald-500/10 text-emerald-200'
+                                : isOverdue
+                                ? 'border-rose-400/60 bg-rose-500/10 text-rose-200'
+                                : 'border-white/15 bg-white/10'
+                            }`}
+                          >
+                            {formatRange(task)}
+                            <span className="h-1 w-1 rounded-full bg-white/40" />
+                            {describeRelativeTime(task.scheduledFor, now)}
+                          </span>
+                          <span className="text-[0.65rem] uppercase tracking-[0.3em] text-slate-500">
+                            {formatDateMeta(task.scheduledFor)}
+                          </span>
+                          {task.timeZone !== device ? (
+                            <span className="text-[0.65rem] text-sky-200/80">
+                              {formatInZone(new Date(task.scheduledFor), task.timeZone)} in{' '}
+                              {zoneLabel(task.timeZone, now)}
+                            </span>
+                          ) : null}
+                          {task.focusMinutes >= 1 ? (
+                            <span className="rounded-full border border-emerald-300/30 bg-emerald-300/10 px-2 py-1 text-[0.65rem] uppercase tracking-[0.3em] text-emerald-200">
+                              Focused {Math.round(task.focusMinutes)} min
+                            </span>
+                          ) : null}
+                          {sentReminders.length > 0 ? (
+                            <span className="rounded-full border border-amber-200/30 bg-amber-100/10 px-2 py-1 text-[0.65rem] uppercase tracking-[0.3em] text-amber-200">
+                              Sent {sentReminders.join(' · ')}
+                            </span>
+                          ) : null}
+                          {overlapping.length > 0 ? (
+                            <span
+                              title={overlapping.map((other) => other.title).join(', ')}
+                              className="rounded-full border border-rose-300/40 bg-rose-400/10 px-2 py-1 text-[0.65rem] uppercase tracking-[0.3em] text-rose-200"
+                            >
+                              Overlaps {overlapping.length}
+                            </span>
+                          ) : null}
+                          {task.series ? (
+                            <span className="rounded-full border border-sky-200/30 bg-sky-100/10 px-2 py-1 text-[0.65rem] uppercase tracking-[0.3em] text-sky-200">
+                              ↻ {describeRecurrence(task.series.rule)}
+                            </span>
+                          ) : null}
+                        </div>
+                      </div>
+
+                      <div className="mt-4 flex flex-wrap items-center gap-2 text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+                        {!task.completed ? (
+                          <button
+                            type="button"
+                            onClick={() => handleSnoozeTask(task.id)}
+                            className="rounded-full border border-white/20 px-3 py-1 transition hover:border-emerald-300/60 hover:bg-emerald-300/10 hover:text-emerald-200"
+                          >
+                            Snooze 5 min
+                          </button>
+                        ) : null}
+                        {!task.completed && focusSession?.taskId !== task.id ? (
+                          <button
+                            type="button"
+                            onClick={() => handleStartFocus(task.id)}
+                            className="rounded-full border border-white/20 px-3 py-1 transition hover:border-emerald-300/60 hover:bg-emerald-300/10 hover:text-emerald-200"
+                          >
+                            Focus
+                          </button>
+                        ) : null}
+                        {isRunningLong ? (
+                          <button
+                            type="button"
+                            onClick={() => handleExtendTask(task.id)}
+                            className="rounded-full border border-white/20 px-3 py-1 transition hover:border-emerald-300/60 hover:bg-emerald-300/10 hover:text-emerald-200"
+                          >
+                            +15 min
+                          </button>
+                        ) : null}
+                        {pushesFollowing ? (
+                          <button
+                            type="button"
+                            onClick={() => handleShiftFollowing(task.id)}
+                            className="rounded-full border border-amber-300/40 px-3 py-1 text-amber-200 transition hover:bg-amber-300/10"
+                          >
+                            Shift following
+                          </button>
+                        ) : null}
                         <button
                           type="button"
-                          onClick={() => handleToggleComplete(task.id)}
-                          className={`flex h-6 w-6 items-center justify-center rounded-full border text-xs font-bold transition ${
-                            task.completed
-                              ? 'border-emerald-400 bg-emerald-400 text-emerald-950'
-                              : 'border-white/20 bg-black/60 text-slate-300 hover:border-white/40'
-                          }`}
-                          aria-label={`Mark ${task.title} as ${task.completed ? 'pending' : 'done'}`}
+                          onClick={() => (task.id === editingTaskId ? resetForm() : handleStartEdit(task))}
+                          className="rounded-full border border-white/20 px-3 py-1 transition hover:border-emerald-300/60 hover:bg-emerald-300/10 hover:text-emerald-200"
                         >
-                          {task.completed ? '✓' : ''}
+                          {task.id === editingTaskId ? 'Cancel edit' : 'Edit'}
                         </button>
-                        <div>
-                          <h3 className="text-lg font-semibold text-slate-100">
-                            {task.title}
-                          </h3>
-                          {task.notes ? (
-                            <p className="text-sm text-slate-400">{task.notes}</p>
-                          ) : null}
-                        </div>
+                        <button
+                          type="button"
+                          onClick={() => handleDeleteTask(task.id)}
+                          className="rounded-full border border-white/20 px-3 py-1 transition hover:border-rose-400/60 hover:bg-rose-500/10 hover:text-rose-200"
+                        >
+                          {task.series ? 'Skip' : 'Delete'}
+                        </button>
+                        {task.series && !task.completed ? (
+                          <button
+                            type="button"
+                            onClick={() => (isEditingSeries ? setSeriesDraft(null) : handleEditSeries(task))}
+                            className="rounded-full border border-white/20 px-3 py-1 transition hover:border-sky-300/60 hover:bg-sky-300/10 hover:text-sky-200"
+                          >
+                            {isEditingSeries ? 'Close series' : 'Edit series'}
+                          </button>
+                        ) : null}
                       </div>
 
-                      <div className="flex flex-col items-end gap-2 text-xs text-slate-300">
+                      {isEditingSeries && seriesDraft ? (
+                        <form
+                          onSubmit={handleSaveSeries}
+                          className="mt-4 flex flex-col gap-3 rounded-2xl border border-sky-200/20 bg-sky-200/5 p-4"
+                        >
+                          <input
+                            value={seriesDraft.title}
+                            onChange={(event) => setSeriesDraft({ ...seriesDraft, title: event.target.value })}
+                            className="w-full rounded-xl border border-white/10 bg-black/40 px-3 py-3 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
+                            required
+                          />
+                          <textarea
+                            value={seriesDraft.notes}
+                            onChange={(event) => setSeriesDraft({ ...seriesDraft, notes: event.target.value })}
+                            rows={2}
+                            className="w-full rounded-xl border border-white/10 bg-black/40 px-3 py-3 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
+                          />
+                          <RecurrenceFields
+                            value={seriesDraft.recurrence}
+                            onChange={(recurrence) => setSeriesDraft({ ...seriesDraft, recurrence })}
+                          />
+                          <div className="flex flex-wrap gap-2 text-xs font-semibold uppercase tracking-[0.3em]">
+                            <button
+                              type="submit"
+                              className="rounded-full bg-emerald-500 px-4 py-2 text-emerald-950 transition hover:bg-emerald-400"
+                            >
+                              Save series
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleEndSeries(seriesDraft.series)}
+                              className="rounded-full border border-rose-400/60 bg-rose-400/20 px-4 py-2 text-rose-100 transition hover:bg-rose-400/30"
+                            >
+                              End series
+                            </button>
+                          </div>
+                        </form>
+                      ) : null}
+                    </article>
+                  );
+                })}
+
+                {dayArchive ? (
+                  <div className="flex flex-col gap-2 rounded-2xl border border-white/10 bg-black/20 p-4 text-sm text-slate-400">
+                    <span className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-300">
+                      Archived
+                    </span>
+                    {dayArchive.tasks.map((task) => (
+                      <div key={task.id} className="flex items-center justify-between gap-3">
+                        <span className={task.completed ? 'line-through' : undefined}>
+                          {formatRange(task)} · {task.title}
+                        </span>
                         <span
-                          className={`flex items-center gap-2 rounded-full border px-3 py-1 ${
+                          className={`rounded-full px-2 py-0.5 text-xs ${
                             task.completed
-                              ? 'border-emerald-500/40 bg-emerald-500/10 text-emerald-200'
-                              : isOverdue
-                              ? 'border-rose-400/60 bg-rose-500/10 text-rose-200'
-                              : 'border-white/15 bg-white/10'
+                              ? 'bg-emerald-400/10 text-emerald-200'
+                              : 'bg-rose-400/10 text-rose-200'
                           }`}
                         >
-                          {formatClock(task.scheduledFor)}
-                          <span className="h-1 w-1 rounded-full bg-white/40" />
-                          {describeRelativeTime(task.scheduledFor, now)}
+                          {task.completed ? 'Done' : 'Missed'}
                         </span>
-                        <span className="text-[0.65rem] uppercase tracking-[0.3em] text-slate-500">
-                          {formatDateMeta(task.scheduledFor)}
-                        </span>
-                        {wasNotified ? (
-                          <span className="rounded-full border border-amber-200/30 bg-amber-100/10 px-2 py-1 text-[0.65rem] uppercase tracking-[0.3em] text-amber-200">
-                            Alarm sent
-                          </span>
-                        ) : null}
                       </div>
-                    </div>
-
-                    <div className="mt-4 flex flex-wrap items-center gap-2 text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
-                      {!task.completed ? (
-                        <button
-                          type="button"
-                          onClick={() => handleSnoozeTask(task.id)}
-                          className="rounded-full border border-white/20 px-3 py-1 transition hover:border-emerald-300/60 hover:bg-emerald-300/10 hover:text-emerald-200"
-                        >
-                          Snooze 5 min
-                        </button>
-                      ) : null}
-                      <button
-                        type="button"
-                        onClick={() => handleDeleteTask(task.id)}
-                        className="rounded-full border border-white/20 px-3 py-1 transition hover:border-rose-400/60 hover:bg-rose-500/10 hover:text-rose-200"
-                      >
-                        Delete
-                      </button>
-                    </div>
-                  </article>
-                );
-              })}
-            </div>
+                    ))}
+                  </div>
+                ) : null}
+              </div>
+            )}
           </div>
         </section>
 
+        {showTemplateManager ? (
+          <TemplateManager
+            templates={customTemplates}
+            dayTasks={todayTasks}
+            onChange={setCustomTemplates}
+            onClose={() => setShowTemplateManager(false)}
+          />
+        ) : null}
+
         <section className="rounded-3xl border border-white/10 bg-white/5 p-6 text-sm text-slate-300">
           <h2 className="text-lg font-semibold text-slate-100">
             How reminders work
@@ -771,9 +2668,25 @@ export default function Home() {
             <li className="flex items-start gap-3">
               <span className="mt-1 inline-flex h-2 w-2 rounded-full bg-emerald-300" />
               <p>
-                Schedule every task with a start time. The planner will check every
-                15 seconds and trigger an alarm as soon as the scheduled moment
-                arrives.
+                Schedule every task with a start time. The planner sets a timer for
+                the next reminder and triggers the alarm the moment it is due, and
+                catches up on anything missed while the computer was asleep.
+              </p>
+            </li>
+            <li className="flex items-start gap-3">
+              <span className="mt-1 inline-flex h-2 w-2 rounded-full bg-emerald-300" />
+              <p>
+                With notifications enabled, a background service worker keeps a copy
+                of the schedule and can still remind you, with Complete and Snooze
+                buttons, after the tab is closed, for as long as the browser keeps
+                it running.
+              </p>
+            </li>
+            <li className="flex items-start gap-3">
+              <span className="mt-1 inline-flex h-2 w-2 rounded-full bg-emerald-300" />
+              <p>
+                With the planner open in several tabs, edits show up in all of them
+                and only one tab rings the alarm.
               </p>
             </li>
             <li className="flex items-start gap-3">
@@ -790,9 +2703,33 @@ export default function Home() {
                 the board and start fresh.
               </p>
             </li>
+            <li className="flex items-start gap-3">
+              <span className="mt-1 inline-flex h-2 w-2 rounded-full bg-emerald-300" />
+              <p>
+                Repeating tasks keep only their next occurrence on the board. A new
+                one appears as soon as the current one fires or is completed, and
+                skipping an occurrence leaves the rest of the series intact.
+              </p>
+            </li>
           </ul>
         </section>
       </div>
+
+      {showPalette ? (
+        <CommandPalette commands={commands} onClose={() => setShowPalette(false)} />
+      ) : null}
+
+      {showShortcuts ? (
+        <ShortcutHelp commands={commands} onClose={() => setShowShortcuts(false)} />
+      ) : null}
+
+      {undoToast ? (
+        <UndoToast
+          label={undoToast.label}
+          onUndo={handleUndo}
+          onDismiss={() => setUndoToast(null)}
+        />
+      ) : null}
     </div>
   );
 }
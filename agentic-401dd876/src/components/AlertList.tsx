@@ -0,0 +1,134 @@
+import { FormEvent, useState } from 'react';
+import { SNOOZE_OPTIONS, type Alert } from '../planner/alerts';
+
+type AlertListProps = {
+  alerts: Alert[];
+  missed: boolean;
+  onDone: (alert: Alert) => void;
+  onSnooze: (alert: Alert, minutes: number) => void;
+  onDismiss: (alert: Alert) => void;
+  onDismissAll?: () => void;
+};
+
+const formatTriggered = (alert: Alert, missed: boolean) =>
+  new Date(alert.triggeredAt).toLocaleString(
+    [],
+    missed
+      ? { weekday: 'short', hour: '2-digit', minute: '2-digit' }
+      : { hour: '2-digit', minute: '2-digit' },
+  );
+
+export default function AlertList({
+  alerts,
+  missed,
+  onDone,
+  onSnooze,
+  onDismiss,
+  onDismissAll,
+}: AlertListProps) {
+  const [customFor, setCustomFor] = useState<string | null>(null);
+  const [customMinutes, setCustomMinutes] = useState('15');
+
+  const handleCustomSnooze = (event: FormEvent<HTMLFormElement>, alert: Alert) => {
+    event.preventDefault();
+    const minutes = Math.round(Number(customMinutes));
+    if (!(minutes > 0)) return;
+    onSnooze(alert, minutes);
+    setCustomFor(null);
+  };
+
+  return (
+    <section
+      className={`space-y-3 rounded-3xl border p-5 shadow-lg ${
+        missed
+          ? 'border-amber-200/20 bg-amber-200/5 text-amber-50 shadow-amber-500/10'
+          : 'border-emerald-300/20 bg-emerald-200/10 text-emerald-50 shadow-emerald-500/10'
+      }`}
+    >
+      {missed ? (
+        <div className="flex items-center justify-between gap-2 text-xs font-semibold uppercase tracking-[0.3em] text-amber-200/80">
+          <span>Missed alerts · {alerts.length}</span>
+          {onDismissAll ? (
+            <button
+              type="button"
+              onClick={onDismissAll}
+              className="rounded-full border border-amber-200/40 px-3 py-1 transition hover:bg-amber-200/20"
+            >
+              Dismiss all
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+      {alerts.map((alert) => (
+        <div
+          key={alert.id}
+          className={`flex flex-col gap-2 rounded-2xl border px-4 py-3 text-sm ${
+            missed ? 'border-amber-200/20 bg-amber-200/10' : 'border-emerald-300/20 bg-emerald-300/10'
+          }`}
+        >
+          <div
+            className={`flex items-center justify-between text-xs uppercase tracking-[0.3em] ${
+              missed ? 'text-amber-200/80' : 'text-emerald-200/80'
+            }`}
+          >
+            <span>{alert.heading}</span>
+            <span>{formatTriggered(alert, missed)}</span>
+          </div>
+          <p className="text-base font-semibold leading-tight">{alert.message}</p>
+          <div className="flex flex-wrap items-center gap-2 text-xs font-semibold uppercase tracking-[0.3em]">
+            <button
+              type="button"
+              onClick={() => onDone(alert)}
+              className="rounded-full bg-emerald-500 px-3 py-1 text-emerald-950 transition hover:bg-emerald-400"
+            >
+              Done
+            </button>
+            {SNOOZE_OPTIONS.map((minutes) => (
+              <button
+                key={minutes}
+                type="button"
+                onClick={() => onSnooze(alert, minutes)}
+                className="rounded-full border border-white/20 px-3 py-1 transition hover:bg-white/10"
+              >
+                +{minutes} min
+              </button>
+            ))}
+            {customFor === alert.id ? (
+              <form onSubmit={(event) => handleCustomSnooze(event, alert)} className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={1}
+                  value={customMinutes}
+                  onChange={(event) => setCustomMinutes(event.target.value)}
+                  className="w-16 rounded-full border border-white/20 bg-black/40 px-3 py-1 text-slate-100 outline-none"
+                  autoFocus
+                />
+                <button
+                  type="submit"
+                  className="rounded-full border border-white/20 px-3 py-1 transition hover:bg-white/10"
+                >
+                  Snooze
+                </button>
+              </form>
+            ) : (
+              <button
+                type="button"
+                onClick={() => setCustomFor(alert.id)}
+                className="rounded-full border border-dashed border-white/20 px-3 py-1 transition hover:bg-white/10"
+              >
+                Custom
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => onDismiss(alert)}
+              className="rounded-full border border-white/20 px-3 py-1 text-slate-300 transition hover:bg-white/10"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      ))}
+    </section>
+  );
+}
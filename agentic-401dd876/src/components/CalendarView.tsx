@@ -0,0 +1,217 @@
+import { PointerEvent, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  addDays,
+  layoutDay,
+  MIN_BLOCK_MINUTES,
+  snapMinutes,
+  startOfDay,
+  startOfWeek,
+  type CalendarBlock,
+} from '../planner/calendarLayout';
+import type { Task } from '../planner/tasks';
+
+type CalendarViewProps = {
+  mode: 'day' | 'week';
+  anchor: number;
+  tasks: Task[];
+  now: number;
+  onReschedule: (taskId: string, start: number, durationMinutes: number | null) => void;
+  onSelect: (task: Task) => void;
+};
+
+type Drag = {
+  taskId: string;
+  kind: 'move' | 'resize';
+  originX: number;
+  originY: number;
+  minutes: number;
+  days: number;
+};
+
+const HOUR_PX = 40;
+const MINUTE_PX = HOUR_PX / 60;
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+// Pointer travel below this counts as a click rather than a drag.
+const CLICK_SLOP_PX = 4;
+
+export default function CalendarView({
+  mode,
+  anchor,
+  tasks,
+  now,
+  onReschedule,
+  onSelect,
+}: CalendarViewProps) {
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const columnsRef = useRef<HTMLDivElement | null>(null);
+
+  const days = useMemo(() => {
+    const first = mode === 'week' ? startOfWeek(anchor) : anchor;
+    return Array.from({ length: mode === 'week' ? 7 : 1 }, (_, index) => addDays(first, index));
+  }, [anchor, mode]);
+
+  const columns = useMemo(() => days.map((day) => layoutDay(tasks, day)), [days, tasks]);
+
+  useEffect(() => {
+    const hour = new Date().getHours();
+    scrollRef.current?.scrollTo({ top: Math.max(0, hour - 1) * HOUR_PX });
+  }, [mode]);
+
+  const label =
+    mode === 'week'
+      ? `${new Date(days[0]).toLocaleDateString([], { month: 'short', day: 'numeric' })} – ${new Date(
+          days[days.length - 1],
+        ).toLocaleDateString([], { month: 'short', day: 'numeric' })}`
+      : new Date(anchor).toLocaleDateString([], { weekday: 'long', month: 'short', day: 'numeric' });
+
+  const preview = (block: CalendarBlock, dayIndex: number) => {
+    if (!drag || drag.taskId !== block.task.id) {
+      return { dayIndex, startMinute: block.startMinute, endMinute: block.endMinute };
+    }
+    if (drag.kind === 'resize') {
+      return {
+        dayIndex,
+        startMinute: block.startMinute,
+        endMinute: Math.max(block.startMinute + MIN_BLOCK_MINUTES, block.endMinute + drag.minutes),
+      };
+    }
+    return {
+      dayIndex: Math.min(days.length - 1, Math.max(0, dayIndex + drag.days)),
+      startMinute: block.startMinute + drag.minutes,
+      endMinute: block.endMinute + drag.minutes,
+    };
+  };
+
+  const handlePointerDown = (
+    event: PointerEvent<HTMLElement>,
+    block: CalendarBlock,
+    kind: Drag['kind'],
+  ) => {
+    if (block.task.completed) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({
+      taskId: block.task.id,
+      kind,
+      originX: event.clientX,
+      originY: event.clientY,
+      minutes: 0,
+      days: 0,
+    });
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLElement>) => {
+    if (!drag) return;
+    const columnWidth = (columnsRef.current?.getBoundingClientRect().width ?? 1) / days.length;
+    setDrag({
+      ...drag,
+      minutes: snapMinutes((event.clientY - drag.originY) / MINUTE_PX),
+      days: mode === 'week' ? Math.round((event.clientX - drag.originX) / columnWidth) : 0,
+    });
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLElement>, block: CalendarBlock, dayIndex: number) => {
+    if (!drag || drag.taskId !== block.task.id) return;
+    setDrag(null);
+    const moved =
+      Math.abs(event.clientX - drag.originX) > CLICK_SLOP_PX ||
+      Math.abs(event.clientY - drag.originY) > CLICK_SLOP_PX;
+    if (!moved) {
+      onSelect(block.task);
+      return;
+    }
+    const next = preview(block, dayIndex);
+    if (drag.kind === 'resize') {
+      onReschedule(
+        block.task.id,
+        new Date(block.task.scheduledFor).getTime(),
+        next.endMinute - next.startMinute,
+      );
+      return;
+    }
+    // Shift by the snapped distance, so a task at 9:10 dragged one step lands on 9:25.
+    const start = new Date(block.task.scheduledFor);
+    start.setDate(start.getDate() + next.dayIndex - dayIndex);
+    start.setMinutes(start.getMinutes() + drag.minutes);
+    onReschedule(block.task.id, start.getTime(), block.task.durationMinutes);
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl border border-white/10 bg-black/30 p-4">
+      <div className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-300">{label}</div>
+
+      {mode === 'week' ? (
+        <div className="ml-12 grid grid-cols-7 text-center text-[0.65rem] uppercase tracking-[0.2em] text-slate-400">
+          {days.map((day) => (
+            <span key={day} className={startOfDay(now) === day ? 'text-emerald-200' : undefined}>
+              {new Date(day).toLocaleDateString([], { weekday: 'short', day: 'numeric' })}
+            </span>
+          ))}
+        </div>
+      ) : null}
+
+      <div ref={scrollRef} className="max-h-[32rem] overflow-y-auto">
+        <div className="flex" style={{ height: 24 * HOUR_PX }}>
+          <div className="w-12 shrink-0">
+            {HOURS.map((hour) => (
+              <div key={hour} className="text-[0.65rem] text-slate-500" style={{ height: HOUR_PX }}>
+                {new Date(2000, 0, 1, hour).toLocaleTimeString([], { hour: '2-digit' })}
+              </div>
+            ))}
+          </div>
+          <div ref={columnsRef} className="relative flex flex-1">
+            {days.map((day) => (
+              <div key={day} className="relative flex-1 border-l border-white/10">
+                {HOURS.map((hour) => (
+                  <div key={hour} className="border-t border-white/5" style={{ height: HOUR_PX }} />
+                ))}
+                {startOfDay(now) === day ? (
+                  <div
+                    className="pointer-events-none absolute inset-x-0 z-20 border-t-2 border-rose-400"
+                    style={{ top: ((now - day) / 60000) * MINUTE_PX }}
+                  />
+                ) : null}
+              </div>
+            ))}
+            {columns.flatMap((blocks, dayIndex) =>
+              blocks.map((block) => {
+                const position = preview(block, dayIndex);
+                const isDragging = drag?.taskId === block.task.id;
+                return (
+                  <div
+                    key={`${block.task.id}-${days[dayIndex]}`}
+                    onPointerDown={(event) => handlePointerDown(event, block, 'move')}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={(event) => handlePointerUp(event, block, dayIndex)}
+                    onPointerCancel={() => setDrag(null)}
+                    title={block.task.title}
+                    className={`absolute z-10 touch-none select-none overflow-hidden rounded-lg border px-2 py-1 text-xs ${
+                      block.task.completed
+                        ? 'border-emerald-500/30 bg-emerald-500/10 text-emerald-200/70 line-through'
+                        : 'cursor-grab border-emerald-300/40 bg-emerald-400/20 text-emerald-50'
+                    } ${isDragging ? 'z-30 opacity-80 ring-2 ring-emerald-300' : ''}`}
+                    style={{
+                      top: position.startMinute * MINUTE_PX,
+                      height: Math.max(MIN_BLOCK_MINUTES, position.endMinute - position.startMinute) * MINUTE_PX,
+                      left: `calc(${(position.dayIndex + block.column / block.columns) * (100 / days.length)}% + 2px)`,
+                      width: `calc(${100 / days.length / block.columns}% - 4px)`,
+                    }}
+                  >
+                    <span className="font-semibold">{block.task.title}</span>
+                    {!block.task.completed ? (
+                      <span
+                        onPointerDown={(event) => handlePointerDown(event, block, 'resize')}
+                        className="absolute inset-x-0 bottom-0 h-2 cursor-ns-resize"
+                      />
+                    ) : null}
+                  </div>
+                );
+              }),
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import type { ChecklistItem } from '../planner/tasks';
+
+type ChecklistProps = {
+  items: ChecklistItem[];
+  onToggle: (itemId: string) => void;
+};
+
+export default function Checklist({ items, onToggle }: ChecklistProps) {
+  const done = items.filter((item) => item.done).length;
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="flex items-center gap-2 text-xs opacity-80">
+        <div className="h-1.5 w-24 overflow-hidden rounded-full bg-white/10">
+          <div
+            className="h-full bg-emerald-400/80"
+            style={{ width: `${Math.round((done / items.length) * 100)}%` }}
+          />
+        </div>
+        {done}/{items.length}
+      </div>
+      <ul className="flex flex-col gap-1">
+        {items.map((item) => (
+          <li key={item.id}>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={item.done}
+                onChange={() => onToggle(item.id)}
+                className="h-4 w-4 accent-emerald-400"
+              />
+              <span className={item.done ? 'line-through opacity-60' : undefined}>{item.text}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
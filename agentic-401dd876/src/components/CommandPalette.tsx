@@ -0,0 +1,89 @@
+import { KeyboardEvent, useState } from 'react';
+import { matchCommands, type Command } from '../planner/commands';
+
+type CommandPaletteProps = {
+  commands: Command[];
+  onClose: () => void;
+};
+
+export default function CommandPalette({ commands, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [active, setActive] = useState(0);
+  const matches = matchCommands(commands, query);
+  const selected = Math.min(active, Math.max(0, matches.length - 1));
+
+  const run = (command: Command | undefined) => {
+    if (!command) return;
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActive((selected + 1) % Math.max(1, matches.length));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActive((selected - 1 + matches.length) % Math.max(1, matches.length));
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      run(matches[selected]);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-black/60 px-4 pt-24 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-label="Command palette"
+        onClick={(event) => event.stopPropagation()}
+        className="flex w-full max-w-lg flex-col overflow-hidden rounded-2xl border border-white/10 bg-slate-950 shadow-2xl"
+      >
+        <input
+          autoFocus
+          value={query}
+          onChange={(event) => {
+            setQuery(event.target.value);
+            setActive(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Type a command"
+          className="border-b border-white/10 bg-transparent px-4 py-3 text-sm text-slate-100 outline-none"
+        />
+        <ul className="max-h-80 overflow-y-auto py-2 text-sm">
+          {matches.length === 0 ? (
+            <li className="px-4 py-2 text-slate-500">No matching commands</li>
+          ) : null}
+          {matches.map((command, index) => (
+            <li key={command.id}>
+              <button
+                type="button"
+                onClick={() => run(command)}
+                onMouseEnter={() => setActive(index)}
+                className={`flex w-full items-center justify-between gap-3 px-4 py-2 text-left ${
+                  index === selected ? 'bg-emerald-400/20 text-emerald-100' : 'text-slate-300'
+                }`}
+              >
+                <span>
+                  <span className="text-slate-500">{command.group} · </span>
+                  {command.label}
+                </span>
+                {command.shortcut ? (
+                  <kbd className="rounded border border-white/20 px-1.5 text-xs text-slate-400">
+                    {command.shortcut}
+                  </kbd>
+                ) : null}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
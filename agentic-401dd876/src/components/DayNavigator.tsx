@@ -0,0 +1,88 @@
+import { addDays, startOfDay } from '../planner/calendarLayout';
+import { dayKey, parseDayKey, type RolloverMode } from '../planner/archive';
+
+type DayNavigatorProps = {
+  day: number | null;
+  step: number;
+  now: number;
+  rolloverMode: RolloverMode;
+  onChange: (day: number | null) => void;
+  onRolloverChange: (mode: RolloverMode) => void;
+};
+
+const rolloverLabels: Record<RolloverMode, string> = {
+  off: 'Leave unfinished tasks',
+  move: 'Move unfinished to the next day',
+  missed: 'Archive unfinished as missed',
+};
+
+const pillClass =
+  'rounded-full border border-white/10 bg-white/10 px-3 py-1 text-slate-300 transition hover:border-white/20 hover:bg-white/15';
+
+export default function DayNavigator({
+  day,
+  step,
+  now,
+  rolloverMode,
+  onChange,
+  onRolloverChange,
+}: DayNavigatorProps) {
+  const current = day ?? startOfDay(now);
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 text-xs font-semibold uppercase tracking-[0.3em]">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => onChange(addDays(current, -step))}
+          className={pillClass}
+          aria-label="Previous day"
+        >
+          ←
+        </button>
+        <input
+          type="date"
+          value={day === null ? '' : dayKey(day)}
+          onChange={(event) => onChange(parseDayKey(event.target.value))}
+          className="rounded-xl border border-white/10 bg-black/40 px-3 py-1 text-sm normal-case tracking-normal text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
+        />
+        <button
+          type="button"
+          onClick={() => onChange(addDays(current, step))}
+          className={pillClass}
+          aria-label="Next day"
+        >
+          →
+        </button>
+        <button type="button" onClick={() => onChange(startOfDay(Date.now()))} className={pillClass}>
+          Today
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          className={`rounded-full border px-3 py-1 transition ${
+            day === null
+              ? 'border-emerald-400 bg-emerald-400/20 text-emerald-200'
+              : 'border-white/10 bg-white/10 text-slate-300 hover:border-white/20 hover:bg-white/15'
+          }`}
+        >
+          All days
+        </button>
+      </div>
+      <label className="flex items-center gap-2 text-slate-400">
+        End of day
+        <select
+          value={rolloverMode}
+          onChange={(event) => onRolloverChange(event.target.value as RolloverMode)}
+          className="rounded-xl border border-white/10 bg-black/40 px-3 py-1 text-sm normal-case tracking-normal text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
+        >
+          {(Object.keys(rolloverLabels) as RolloverMode[]).map((mode) => (
+            <option key={mode} value={mode}>
+              {rolloverLabels[mode]}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
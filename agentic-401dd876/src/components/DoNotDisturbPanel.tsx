@@ -0,0 +1,88 @@
+import { DND_DURATIONS, quietUntil, type QuietSettings } from '../planner/quietHours';
+
+type DoNotDisturbPanelProps = {
+  settings: QuietSettings;
+  now: number;
+  onChange: (settings: QuietSettings) => void;
+  onClose: () => void;
+};
+
+const formatDuration = (minutes: number) =>
+  minutes < 60 ? `${minutes} min` : `${minutes / 60} h`;
+
+export default function DoNotDisturbPanel({ settings, now, onChange, onClose }: DoNotDisturbPanelProps) {
+  const until = quietUntil(settings, now);
+  const dndActive = settings.dndUntil !== null && settings.dndUntil > now;
+
+  return (
+    <section className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-white/5 p-6 text-sm text-slate-300 backdrop-blur">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-slate-100">Do not disturb</h2>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-full border border-white/20 px-3 py-1 text-xs font-semibold uppercase tracking-[0.3em] text-slate-300 transition hover:border-white/40"
+        >
+          Close
+        </button>
+      </div>
+
+      <p>
+        {until
+          ? `Reminders are silenced until ${new Date(until).toLocaleTimeString([], {
+              hour: '2-digit',
+              minute: '2-digit',
+            })}. They wait in the alert list and a summary rings when the quiet period ends.`
+          : 'Reminders ring normally.'}
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs font-semibold">
+        <span className="uppercase tracking-[0.3em] text-slate-400">Silence for</span>
+        {DND_DURATIONS.map((minutes) => (
+          <button
+            key={minutes}
+            type="button"
+            onClick={() => onChange({ ...settings, dndUntil: now + minutes * 60000 })}
+            className="rounded-full border border-white/10 bg-white/10 px-3 py-1 text-slate-300 transition hover:border-white/20 hover:bg-white/15"
+          >
+            {formatDuration(minutes)}
+          </button>
+        ))}
+        {dndActive ? (
+          <button
+            type="button"
+            onClick={() => onChange({ ...settings, dndUntil: null })}
+            className="rounded-full border border-rose-400/60 bg-rose-400/20 px-3 py-1 text-rose-100 transition hover:bg-rose-400/30"
+          >
+            End now
+          </button>
+        ) : null}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-3">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(event) => onChange({ ...settings, enabled: event.target.checked })}
+            className="h-4 w-4 accent-emerald-400"
+          />
+          Quiet hours every day from
+        </label>
+        <input
+          type="time"
+          value={settings.start}
+          onChange={(event) => event.target.value && onChange({ ...settings, start: event.target.value })}
+          className="rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
+        />
+        <span>to</span>
+        <input
+          type="time"
+          value={settings.end}
+          onChange={(event) => event.target.value && onChange({ ...settings, end: event.target.value })}
+          className="rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
+        />
+      </div>
+    </section>
+  );
+}
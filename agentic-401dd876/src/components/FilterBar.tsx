@@ -0,0 +1,146 @@
+import type { RefObject } from 'react';
+import {
+  defaultFilter,
+  serializeFilter,
+  TASK_STATUSES,
+  type TaskFilter,
+  type TaskStatus,
+} from '../planner/filters';
+import { nextTagColor, tagColor, tagColorClasses, type TagColor } from '../planner/tags';
+import { PRIORITIES, type Priority } from '../planner/tasks';
+
+type FilterBarProps = {
+  filter: TaskFilter;
+  searchRef?: RefObject<HTMLInputElement | null>;
+  tags: string[];
+  tagColors: Record<string, TagColor>;
+  onChange: (filter: TaskFilter) => void;
+  onTagColorChange: (tag: string, color: TagColor) => void;
+};
+
+const statusLabels: Record<TaskStatus, string> = {
+  all: 'All',
+  upcoming: 'Upcoming',
+  overdue: 'Overdue',
+  completed: 'Done',
+};
+
+const inputClass =
+  'rounded-xl border border-white/10 bg-black/40 px-3 py-1 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring';
+
+export default function FilterBar({
+  filter,
+  searchRef,
+  tags,
+  tagColors,
+  onChange,
+  onTagColorChange,
+}: FilterBarProps) {
+  const toggleTag = (tag: string) =>
+    onChange({
+      ...filter,
+      tags: filter.tags.includes(tag) ? filter.tags.filter((item) => item !== tag) : [...filter.tags, tag],
+    });
+
+  return (
+    <div className="flex flex-col gap-3 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          ref={searchRef}
+          type="search"
+          value={filter.query}
+          onChange={(event) => onChange({ ...filter, query: event.target.value })}
+          placeholder="Search titles and notes"
+          className={`${inputClass} min-w-[12rem] flex-1`}
+        />
+        <div className="flex items-center gap-2 font-semibold uppercase tracking-[0.3em]">
+          {TASK_STATUSES.map((status) => (
+            <button
+              key={status}
+              type="button"
+              onClick={() => onChange({ ...filter, status })}
+              className={`rounded-full border px-3 py-1 transition ${
+                filter.status === status
+                  ? 'border-emerald-400 bg-emerald-400/20 text-emerald-200'
+                  : 'border-white/10 bg-white/10 text-slate-300 hover:border-white/20 hover:bg-white/15'
+              }`}
+            >
+              {statusLabels[status]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-slate-400">
+        <select
+          value={filter.priority ?? ''}
+          onChange={(event) =>
+            onChange({ ...filter, priority: (event.target.value || null) as Priority | null })
+          }
+          className={inputClass}
+        >
+          <option value="">Any priority</option>
+          {PRIORITIES.map((priority) => (
+            <option key={priority} value={priority}>
+              {priority[0].toUpperCase() + priority.slice(1)} priority
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2">
+          From
+          <input
+            type="date"
+            value={filter.from ?? ''}
+            onChange={(event) => onChange({ ...filter, from: event.target.value || null })}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          to
+          <input
+            type="date"
+            value={filter.to ?? ''}
+            onChange={(event) => onChange({ ...filter, to: event.target.value || null })}
+            className={inputClass}
+          />
+        </label>
+        {serializeFilter(filter) ? (
+          <button
+            type="button"
+            onClick={() => onChange(defaultFilter)}
+            className="rounded-full border border-white/20 px-3 py-1 font-semibold uppercase tracking-[0.3em] text-slate-300 transition hover:border-white/40"
+          >
+            Clear
+          </button>
+        ) : null}
+      </div>
+
+      {tags.length > 0 ? (
+        <div className="flex flex-wrap items-center gap-2">
+          {tags.map((tag) => {
+            const color = tagColor(tag, tagColors);
+            const active = filter.tags.includes(tag);
+            return (
+              <span
+                key={tag}
+                className={`flex items-center gap-2 rounded-full border px-3 py-1 ${tagColorClasses[color]} ${
+                  active ? 'ring-2 ring-white/40' : 'opacity-70 hover:opacity-100'
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => onTagColorChange(tag, nextTagColor(color))}
+                  className="h-2 w-2 rounded-full bg-current"
+                  aria-label={`Change color of ${tag}`}
+                />
+                <button type="button" onClick={() => toggleTag(tag)}>
+                  #{tag}
+                </button>
+              </span>
+            );
+          })}
+        </div>
+      ) : null}
+    </div>
+  );
+}
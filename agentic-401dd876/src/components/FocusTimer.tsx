@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react';
+import { remainingMs, type FocusSession, type FocusSettings } from '../planner/focus';
+
+type FocusTimerProps = {
+  session: FocusSession;
+  title: string;
+  settings: FocusSettings;
+  onSettingsChange: (settings: FocusSettings) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onSkip: () => void;
+  onStop: () => void;
+};
+
+const settingFields: { key: keyof FocusSettings; label: string }[] = [
+  { key: 'workMinutes', label: 'Work' },
+  { key: 'breakMinutes', label: 'Break' },
+  { key: 'longBreakMinutes', label: 'Long break' },
+  { key: 'cyclesBeforeLongBreak', label: 'Cycles' },
+];
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const pillClass =
+  'rounded-full border border-white/20 px-3 py-1 transition hover:border-emerald-300/60 hover:bg-emerald-300/10 hover:text-emerald-200';
+
+export default function FocusTimer({
+  session,
+  title,
+  settings,
+  onSettingsChange,
+  onPause,
+  onResume,
+  onSkip,
+  onStop,
+}: FocusTimerProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const paused = session.pausedAt !== null;
+
+  useEffect(() => {
+    const ticker = window.setInterval(() => {
+      setNow(Date.now());
+    }, 1000);
+    return () => {
+      window.clearInterval(ticker);
+    };
+  }, []);
+
+  return (
+    <section
+      className={`flex flex-col gap-4 rounded-3xl border p-6 text-sm backdrop-blur ${
+        session.phase === 'work'
+          ? 'border-emerald-300/30 bg-emerald-300/10 text-emerald-50'
+          : 'border-sky-200/30 bg-sky-100/10 text-sky-50'
+      }`}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-col gap-1">
+          <span className="text-xs font-semibold uppercase tracking-[0.3em] opacity-80">
+            {session.phase === 'work' ? `Focus · cycle ${session.cycle}` : 'Break'}
+          </span>
+          <h2 className="text-lg font-semibold">{title}</h2>
+        </div>
+        <span className="font-mono text-4xl font-semibold tabular-nums">
+          {formatCountdown(remainingMs(session, now))}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs font-semibold uppercase tracking-[0.3em]">
+        <button type="button" onClick={paused ? onResume : onPause} className={pillClass}>
+          {paused ? 'Resume' : 'Pause'}
+        </button>
+        <button type="button" onClick={onSkip} className={pillClass}>
+          {session.phase === 'work' ? 'Start break' : 'Skip break'}
+        </button>
+        <button
+          type="button"
+          onClick={onStop}
+          className="rounded-full border border-rose-400/60 bg-rose-400/20 px-3 py-1 text-rose-100 transition hover:bg-rose-400/30"
+        >
+          Stop
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs opacity-80">
+        {settingFields.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-2">
+            {label}
+            <input
+              type="number"
+              min={1}
+              value={settings[key]}
+              onChange={(event) => {
+                const value = Math.round(Number(event.target.value));
+                if (value > 0) onSettingsChange({ ...settings, [key]: value });
+              }}
+              className="w-16 rounded-xl border border-white/10 bg-black/40 px-2 py-1 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
+            />
+          </label>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,92 @@
+import { FormEvent, useMemo, useState } from 'react';
+import { parseQuickAdd, type QuickAddParse } from '../planner/quickAdd';
+import { buildRecurrence, describeRecurrence } from '../planner/recurrence';
+
+type QuickAddProps = {
+  now: number;
+  onAdd: (parsed: QuickAddParse) => void;
+};
+
+export default function QuickAdd({ now, onAdd }: QuickAddProps) {
+  const [text, setText] = useState('');
+  const parsed = useMemo(() => parseQuickAdd(text, now), [text, now]);
+  const rule = parsed.scheduledFor
+    ? buildRecurrence(parsed.recurrence, new Date(parsed.scheduledFor))
+    : null;
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!parsed.title) return;
+    onAdd(parsed);
+    setText('');
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="flex flex-col gap-3 rounded-2xl border border-white/10 bg-black/30 p-5"
+    >
+      <label className="text-xs font-semibold uppercase tracking-[0.4em] text-slate-300">
+        Quick add
+      </label>
+      <input
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+        placeholder="standup tomorrow 9:15 for 15m #work"
+        className="w-full rounded-xl border border-white/10 bg-black/40 px-3 py-3 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
+      />
+      {text.trim() ? (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-300">
+          <span className="font-semibold text-slate-100">{parsed.title || 'Add a title'}</span>
+          <span className="rounded-full border border-white/15 bg-white/10 px-3 py-1">
+            {parsed.scheduledFor
+              ? new Date(parsed.scheduledFor).toLocaleString([], {
+                  weekday: 'short',
+                  month: 'short',
+                  day: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })
+              : 'Next 5-minute mark'}
+          </span>
+          {parsed.priority !== 'normal' ? (
+            <span
+              className={`rounded-full border px-3 py-1 ${
+                parsed.priority === 'high'
+                  ? 'border-rose-300/40 bg-rose-300/10 text-rose-100'
+                  : 'border-white/15 bg-white/5 text-slate-400'
+              }`}
+            >
+              {parsed.priority} priority
+            </span>
+          ) : null}
+          {parsed.durationMinutes ? (
+            <span className="rounded-full border border-white/15 bg-white/10 px-3 py-1">
+              {parsed.durationMinutes} min
+            </span>
+          ) : null}
+          {rule ? (
+            <span className="rounded-full border border-sky-200/30 bg-sky-100/10 px-3 py-1 text-sky-200">
+              {describeRecurrence(rule)}
+            </span>
+          ) : null}
+          {parsed.tags.map((tag) => (
+            <span
+              key={tag}
+              className="rounded-full border border-emerald-300/30 bg-emerald-300/10 px-3 py-1 text-emerald-100"
+            >
+              #{tag}
+            </span>
+          ))}
+          <button
+            type="submit"
+            disabled={!parsed.title}
+            className="ml-auto rounded-full bg-emerald-500 px-4 py-1 font-semibold uppercase tracking-[0.3em] text-emerald-950 transition hover:bg-emerald-400 disabled:opacity-40"
+          >
+            Add
+          </button>
+        </div>
+      ) : null}
+    </form>
+  );
+}
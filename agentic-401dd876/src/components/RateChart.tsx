@@ -0,0 +1,33 @@
+import { completionRate, type PeriodStats } from '../planner/analytics';
+
+type RateChartProps = {
+  title: string;
+  periods: PeriodStats[];
+  label: (start: number) => string;
+};
+
+export default function RateChart({ title, periods, label }: RateChartProps) {
+  return (
+    <div className="flex flex-col gap-2">
+      <span className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">{title}</span>
+      <div className="flex h-32 items-end gap-1 rounded-2xl border border-white/10 bg-black/30 p-3">
+        {periods.map((period) => (
+          <div
+            key={period.start}
+            className="flex h-full flex-1 flex-col justify-end"
+            title={`${label(period.start)}: ${period.completed}/${period.total} done`}
+          >
+            <div
+              className={`rounded-t ${period.total === 0 ? 'bg-white/5' : 'bg-emerald-400/60'}`}
+              style={{ height: period.total === 0 ? 2 : `${Math.max(4, completionRate(period) * 100)}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-[0.65rem] text-slate-500">
+        <span>{label(periods[0].start)}</span>
+        <span>{label(periods[periods.length - 1].start)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { WEEKDAY_LABELS, type RecurrenceDraft, type RecurrencePreset } from '../planner/recurrence';
+
+type RecurrenceFieldsProps = {
+  value: RecurrenceDraft;
+  onChange: (draft: RecurrenceDraft) => void;
+};
+
+const presets: { value: RecurrencePreset; label: string }[] = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'daily', label: 'Every day' },
+  { value: 'weekdays', label: 'Every weekday' },
+  { value: 'hourly', label: 'Every N hours' },
+  { value: 'weekly', label: 'Specific weekdays' },
+];
+
+const inputClass =
+  'mt-2 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-3 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring';
+
+export default function RecurrenceFields({ value, onChange }: RecurrenceFieldsProps) {
+  const update = (changes: Partial<RecurrenceDraft>) => onChange({ ...value, ...changes });
+
+  const toggleWeekday = (day: number) =>
+    update({
+      weekdays: value.weekdays.includes(day)
+        ? value.weekdays.filter((item) => item !== day)
+        : [...value.weekdays, day],
+    });
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div>
+        <label className="text-xs font-semibold uppercase tracking-[0.4em] text-slate-300">
+          Repeat
+        </label>
+        <select
+          value={value.preset}
+          onChange={(event) => update({ preset: event.target.value as RecurrencePreset })}
+          className={inputClass}
+        >
+          {presets.map((preset) => (
+            <option key={preset.value} value={preset.value}>
+              {preset.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {value.preset === 'hourly' || value.preset === 'daily' || value.preset === 'weekly' ? (
+        <div className="flex items-center gap-3 text-sm text-slate-300">
+          <span>Every</span>
+          <input
+            type="number"
+            min={1}
+            value={value.interval}
+            onChange={(event) => update({ interval: Number(event.target.value) })}
+            className="w-20 rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
+          />
+          <span>
+            {value.preset === 'hourly' ? 'hours' : value.preset === 'daily' ? 'days' : 'weeks'}
+          </span>
+        </div>
+      ) : null}
+
+      {value.preset === 'weekly' ? (
+        <div className="flex flex-wrap gap-2">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleWeekday(day)}
+              className={`rounded-full border px-3 py-1 text-xs font-semibold transition ${
+                value.weekdays.includes(day)
+                  ? 'border-emerald-400 bg-emerald-400/20 text-emerald-200'
+                  : 'border-white/10 bg-white/10 text-slate-300 hover:border-white/20 hover:bg-white/15'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      ) : null}
+
+      {value.preset !== 'none' ? (
+        <div className="flex flex-wrap items-center gap-3 text-sm text-slate-300">
+          <span>Ends</span>
+          <select
+            value={value.ends}
+            onChange={(event) => update({ ends: event.target.value as RecurrenceDraft['ends'] })}
+            className="rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
+          >
+            <option value="never">Never</option>
+            <option value="until">On date</option>
+            <option value="count">After</option>
+          </select>
+          {value.ends === 'until' ? (
+            <input
+              type="date"
+              value={value.until}
+              onChange={(event) => update({ until: event.target.value })}
+              className="rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
+            />
+          ) : null}
+          {value.ends === 'count' ? (
+            <>
+              <input
+                type="number"
+                min={1}
+                value={value.count}
+                onChange={(event) => update({ count: Number(event.target.value) })}
+                className="w-20 rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
+              />
+              <span>times</span>
+            </>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { describeOffset, NAG_INTERVALS, REMINDER_OFFSETS } from '../planner/reminders';
+
+export type ReminderDraft = {
+  offsets: number[];
+  nagMinutes: number | null;
+  soundId: string | null;
+  breaksThroughDnd: boolean;
+};
+
+type ReminderFieldsProps = {
+  value: ReminderDraft;
+  sounds: { id: string; name: string }[];
+  onChange: (draft: ReminderDraft) => void;
+};
+
+export default function ReminderFields({ value, sounds, onChange }: ReminderFieldsProps) {
+  const toggleOffset = (offset: number) =>
+    onChange({
+      ...value,
+      offsets: value.offsets.includes(offset)
+        ? value.offsets.filter((item) => item !== offset)
+        : [...value.offsets, offset].sort((a, b) => b - a),
+    });
+
+  return (
+    <div className="flex flex-col gap-3">
+      <label className="text-xs font-semibold uppercase tracking-[0.4em] text-slate-300">
+        Reminders
+      </label>
+      <div className="flex flex-wrap gap-2">
+        {REMINDER_OFFSETS.map((offset) => (
+          <button
+            key={offset}
+            type="button"
+            onClick={() => toggleOffset(offset)}
+            className={`rounded-full border px-3 py-1 text-xs font-semibold transition ${
+              value.offsets.includes(offset)
+                ? 'border-emerald-400 bg-emerald-400/20 text-emerald-200'
+                : 'border-white/10 bg-white/10 text-slate-300 hover:border-white/20 hover:bg-white/15'
+            }`}
+          >
+            {describeOffset(offset)}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-sm text-slate-300">
+        <span>When overdue</span>
+        <select
+          value={value.nagMinutes ?? ''}
+          onChange={(event) =>
+            onChange({ ...value, nagMinutes: event.target.value ? Number(event.target.value) : null })
+          }
+          className="rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
+        >
+          <option value="">Remind once</option>
+          {NAG_INTERVALS.map((minutes) => (
+            <option key={minutes} value={minutes}>
+              Nag every {minutes} min
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-sm text-slate-300">
+        <span>Sound</span>
+        <select
+          value={value.soundId ?? ''}
+          onChange={(event) => onChange({ ...value, soundId: event.target.value || null })}
+          className="rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
+        >
+          <option value="">Default sound</option>
+          {sounds.map((sound) => (
+            <option key={sound.id} value={sound.id}>
+              {sound.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <label className="flex items-center gap-3 text-sm text-slate-300">
+        <input
+          type="checkbox"
+          checked={value.breaksThroughDnd}
+          onChange={(event) => onChange({ ...value, breaksThroughDnd: event.target.checked })}
+          className="h-4 w-4 accent-emerald-400"
+        />
+        Break through do-not-disturb
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import type { RestoreMode, RestorePlan } from '../planner/storage';
+
+type RestorePreviewProps = {
+  fileName: string;
+  plan: RestorePlan;
+  onApply: (mode: RestoreMode) => void;
+  onCancel: () => void;
+};
+
+export default function RestorePreview({ fileName, plan, onApply, onCancel }: RestorePreviewProps) {
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl border border-sky-200/20 bg-sky-200/5 p-4 text-sm text-slate-300">
+      <div className="flex flex-col gap-1">
+        <span className="text-xs font-semibold uppercase tracking-[0.3em] text-sky-200">
+          Restore preview
+        </span>
+        <span className="text-slate-400">
+          {fileName}
+          {plan.exportedAt
+            ? ` · saved ${new Date(plan.exportedAt).toLocaleString([], {
+                month: 'short',
+                day: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit',
+              })}`
+            : ''}
+          {` · schema v${plan.version}`}
+        </span>
+      </div>
+      <ul className="flex flex-col gap-1">
+        <li>
+          Merge adds <strong className="text-slate-100">{plan.added}</strong> new and updates{' '}
+          <strong className="text-slate-100">{plan.updated}</strong> existing tasks (
+          {plan.unchanged} unchanged).
+        </li>
+        <li>
+          Replace keeps only the {plan.tasks.length} backed-up tasks and removes{' '}
+          <strong className="text-rose-200">{plan.removed}</strong> current ones.
+        </li>
+        {plan.templates.length > 0 ? (
+          <li>
+            Includes {plan.templates.length} custom{' '}
+            {plan.templates.length === 1 ? 'template' : 'templates'}.
+          </li>
+        ) : null}
+        {plan.quarantined.length > 0 ? (
+          <li className="text-amber-200">
+            {plan.quarantined.length} invalid {plan.quarantined.length === 1 ? 'record' : 'records'} will
+            be kept in quarantine instead of restored.
+          </li>
+        ) : null}
+      </ul>
+      <div className="flex flex-wrap gap-2 text-xs font-semibold uppercase tracking-[0.3em]">
+        <button
+          type="button"
+          onClick={() => onApply('merge')}
+          className="rounded-full bg-emerald-500 px-4 py-1 text-emerald-950 transition hover:bg-emerald-400"
+        >
+          Merge
+        </button>
+        <button
+          type="button"
+          onClick={() => onApply('replace')}
+          className="rounded-full border border-rose-400/60 bg-rose-400/20 px-4 py-1 text-rose-100 transition hover:bg-rose-400/30"
+        >
+          Replace
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-full border border-white/20 px-4 py-1 text-slate-300 transition hover:border-white/40"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import type { Command } from '../planner/commands';
+
+type ShortcutHelpProps = {
+  commands: Command[];
+  onClose: () => void;
+};
+
+export default function ShortcutHelp({ commands, onClose }: ShortcutHelpProps) {
+  const shortcuts = [
+    { id: 'palette', shortcut: 'Ctrl/⌘ K', label: 'Open the command palette' },
+    { id: 'undo', shortcut: 'Ctrl/⌘ Z', label: 'Undo the last change to your tasks' },
+    { id: 'redo', shortcut: 'Ctrl/⌘ Shift Z', label: 'Redo the last undone change' },
+    ...commands
+      .filter((command) => command.shortcut)
+      .map((command) => ({ id: command.id, shortcut: command.shortcut ?? '', label: command.label })),
+    { id: 'escape', shortcut: 'Esc', label: 'Close overlays and clear the selection' },
+  ];
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-black/60 px-4 pt-24 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-label="Keyboard shortcuts"
+        onClick={(event) => event.stopPropagation()}
+        className="flex w-full max-w-md flex-col gap-4 rounded-2xl border border-white/10 bg-slate-950 p-6 text-sm text-slate-300 shadow-2xl"
+      >
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="text-lg font-semibold text-slate-100">Keyboard shortcuts</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-white/20 px-3 py-1 text-xs font-semibold uppercase tracking-[0.3em] text-slate-300 transition hover:border-white/40"
+          >
+            Close
+          </button>
+        </div>
+        <dl className="grid grid-cols-[auto_1fr] items-center gap-x-4 gap-y-2">
+          {shortcuts.map((item) => (
+            <div key={item.id} className="contents">
+              <dt>
+                <kbd className="rounded border border-white/20 px-1.5 text-xs text-slate-200">
+                  {item.shortcut}
+                </kbd>
+              </dt>
+              <dd>{item.label}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { ChangeEvent, useState } from 'react';
+import {
+  MAX_CUSTOM_SOUND_BYTES,
+  soundPresets,
+  type CustomSound,
+  type SoundSettings,
+} from '../planner/sounds';
+import { createId } from '../planner/tasks';
+
+type SoundSettingsPanelProps = {
+  settings: SoundSettings;
+  customSounds: CustomSound[];
+  onChange: (settings: SoundSettings) => void;
+  onCustomSoundsChange: (sounds: CustomSound[]) => boolean;
+  onTest: (soundId: string) => void;
+  onClose: () => void;
+};
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export default function SoundSettingsPanel({
+  settings,
+  customSounds,
+  onChange,
+  onCustomSoundsChange,
+  onTest,
+  onClose,
+}: SoundSettingsPanelProps) {
+  const [status, setStatus] = useState<string | null>(null);
+
+  const handleUpload = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (file.size > MAX_CUSTOM_SOUND_BYTES) {
+      setStatus(`${file.name} is larger than ${Math.round(MAX_CUSTOM_SOUND_BYTES / 1024)} KB.`);
+      return;
+    }
+    readAsDataUrl(file)
+      .then((dataUrl) => {
+        const sound = { id: `custom::${createId()}`, name: file.name.replace(/\.[^.]+$/, ''), dataUrl };
+        if (!onCustomSoundsChange([...customSounds, sound])) {
+          setStatus('Not enough browser storage left for this sound.');
+          return;
+        }
+        onChange({ ...settings, soundId: sound.id });
+        setStatus(`Added ${sound.name}.`);
+      })
+      .catch(() => setStatus(`Could not read ${file.name}.`));
+  };
+
+  const handleRemove = (soundId: string) => {
+    onCustomSoundsChange(customSounds.filter((sound) => sound.id !== soundId));
+    if (settings.soundId === soundId) {
+      onChange({ ...settings, soundId: soundPresets[0].id });
+    }
+  };
+
+  return (
+    <section className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-white/5 p-6 text-sm text-slate-300 backdrop-blur">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-slate-100">Alarm sound</h2>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-full border border-white/20 px-3 py-1 text-xs font-semibold uppercase tracking-[0.3em] text-slate-300 transition hover:border-white/40"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {[...soundPresets, ...customSounds].map((sound) => (
+          <div
+            key={sound.id}
+            className={`flex items-center gap-2 rounded-full border px-3 py-1 text-xs font-semibold transition ${
+              settings.soundId === sound.id
+                ? 'border-emerald-400 bg-emerald-400/20 text-emerald-200'
+                : 'border-white/10 bg-white/10 text-slate-300'
+            }`}
+          >
+            <button type="button" onClick={() => onChange({ ...settings, soundId: sound.id })}>
+              {sound.name}
+            </button>
+            <button
+              type="button"
+              onClick={() => onTest(sound.id)}
+              aria-label={`Test ${sound.name}`}
+              className="text-slate-400 hover:text-slate-100"
+            >
+              ▶
+            </button>
+            {sound.id.startsWith('custom::') ? (
+              <button
+                type="button"
+                onClick={() => handleRemove(sound.id)}
+                aria-label={`Remove ${sound.name}`}
+                className="text-rose-300 hover:text-rose-100"
+              >
+                ×
+              </button>
+            ) : null}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span>Volume</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={settings.volume}
+          onChange={(event) => onChange({ ...settings, volume: Number(event.target.value) })}
+          className="w-48 accent-emerald-400"
+        />
+        <span className="w-10 text-slate-100">{Math.round(settings.volume * 100)}%</span>
+        <button
+          type="button"
+          onClick={() => onTest(settings.soundId)}
+          className="rounded-full border border-white/20 px-3 py-1 text-xs font-semibold uppercase tracking-[0.3em] transition hover:border-emerald-300/60 hover:bg-emerald-300/10 hover:text-emerald-200"
+        >
+          Test sound
+        </button>
+      </div>
+
+      <label className="flex items-center gap-3">
+        <input
+          type="checkbox"
+          checked={settings.escalate}
+          onChange={(event) => onChange({ ...settings, escalate: event.target.checked })}
+          className="h-4 w-4 accent-emerald-400"
+        />
+        Keep ringing, louder each time, until the alert is acknowledged
+      </label>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="cursor-pointer rounded-full border border-dashed border-white/20 px-3 py-1 text-xs font-semibold text-slate-300 transition hover:border-white/40 hover:text-slate-100">
+          Upload sound…
+          <input type="file" accept="audio/*" onChange={handleUpload} className="hidden" />
+        </label>
+        {status ? <span className="text-xs text-slate-400">{status}</span> : null}
+      </div>
+    </section>
+  );
+}
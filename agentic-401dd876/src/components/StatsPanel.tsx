@@ -0,0 +1,94 @@
+import { completionRate, type PlannerStats } from '../planner/analytics';
+import type { Template } from '../planner/templates';
+import RateChart from './RateChart';
+
+type StatsPanelProps = {
+  stats: PlannerStats;
+  templates: Template[];
+  onClose: () => void;
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const plural = (count: number, noun: string) => `${count} ${count === 1 ? noun : `${noun}s`}`;
+
+const shortDate = (time: number) =>
+  new Date(time).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+export default function StatsPanel({ stats, templates, onClose }: StatsPanelProps) {
+  const finished = stats.onTime + stats.late;
+  const tiles = [
+    { label: 'Current streak', value: plural(stats.currentStreak, 'day') },
+    { label: 'Best streak', value: plural(stats.bestStreak, 'day') },
+    { label: 'On time', value: finished === 0 ? '—' : percent(stats.onTime / finished) },
+    { label: 'Snoozes', value: `${stats.snoozes} on ${plural(stats.snoozedTasks, 'task')}` },
+  ];
+
+  return (
+    <section className="flex flex-col gap-5 rounded-3xl border border-white/10 bg-white/5 p-6 text-sm text-slate-300 backdrop-blur">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-slate-100">Stats</h2>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-full border border-white/20 px-3 py-1 text-xs font-semibold uppercase tracking-[0.3em] text-slate-300 transition hover:border-white/40"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        {tiles.map((tile) => (
+          <div key={tile.label} className="rounded-2xl border border-white/10 bg-black/30 p-4">
+            <p className="text-xs uppercase tracking-[0.3em] text-slate-400">{tile.label}</p>
+            <p className="mt-1 text-xl font-semibold text-slate-100">{tile.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-5 md:grid-cols-2">
+        <RateChart title="Done per day" periods={stats.days} label={shortDate} />
+        <RateChart
+          title="Done per week"
+          periods={stats.weeks}
+          label={(start) => `Week of ${shortDate(start)}`}
+        />
+      </div>
+
+      {finished > 0 ? (
+        <div className="flex flex-col gap-2">
+          <span className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+            On time vs late
+          </span>
+          <div className="flex h-3 overflow-hidden rounded-full bg-rose-400/40">
+            <div className="bg-emerald-400/70" style={{ width: percent(stats.onTime / finished) }} />
+          </div>
+          <span className="text-xs text-slate-400">
+            {stats.onTime} on time · {stats.late} late
+          </span>
+        </div>
+      ) : null}
+
+      {stats.templates.length > 0 ? (
+        <div className="flex flex-col gap-2">
+          <span className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+            Template adherence
+          </span>
+          {stats.templates.map((entry) => (
+            <div key={entry.templateId} className="flex items-center gap-3">
+              <span className="w-40 truncate">
+                {templates.find((template) => template.id === entry.templateId)?.name ?? 'Deleted template'}
+              </span>
+              <div className="h-2 flex-1 overflow-hidden rounded-full bg-white/10">
+                <div className="h-full bg-emerald-400/70" style={{ width: percent(completionRate(entry)) }} />
+              </div>
+              <span className="w-24 text-right text-xs text-slate-400">
+                {entry.completed}/{entry.total} done
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,312 @@
+import { FormEvent, useState } from 'react';
+import { createId, type Task } from '../planner/tasks';
+import { moveTemplate, templateFromTasks, type Template } from '../planner/templates';
+
+type TemplateManagerProps = {
+  templates: Template[];
+  dayTasks: Task[];
+  onChange: (templates: Template[]) => void;
+  onClose: () => void;
+};
+
+type TemplateDraftRow = {
+  title: string;
+  notes: string;
+  time: string;
+  duration: string;
+  checklist: string;
+};
+
+type TemplateDraft = {
+  id: string | null;
+  name: string;
+  description: string;
+  rows: TemplateDraftRow[];
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const emptyRow: TemplateDraftRow = { title: '', notes: '', time: '09:00', duration: '', checklist: '' };
+
+const toDraft = (template: Template, id: string | null): TemplateDraft => ({
+  id,
+  name: template.name,
+  description: template.description,
+  rows: template.tasks.map((item) => ({
+    title: item.title,
+    notes: item.notes,
+    time: `${pad(item.hour)}:${pad(item.minute)}`,
+    duration: item.durationMinutes ? String(item.durationMinutes) : '',
+    checklist: (item.checklist ?? []).join('\n'),
+  })),
+});
+
+const inputClass =
+  'w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring';
+
+const pillClass =
+  'rounded-full border border-white/20 px-3 py-1 transition hover:border-emerald-300/60 hover:bg-emerald-300/10 hover:text-emerald-200 disabled:cursor-not-allowed disabled:opacity-40';
+
+export default function TemplateManager({ templates, dayTasks, onChange, onClose }: TemplateManagerProps) {
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [selection, setSelection] = useState<string[]>([]);
+
+  const updateRow = (index: number, changes: Partial<TemplateDraftRow>) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      rows: draft.rows.map((row, rowIndex) => (rowIndex === index ? { ...row, ...changes } : row)),
+    });
+  };
+
+  const toggleSelection = (taskId: string) =>
+    setSelection((prev) =>
+      prev.includes(taskId) ? prev.filter((item) => item !== taskId) : [...prev, taskId],
+    );
+
+  const handleSaveSelection = () => {
+    const selected = dayTasks.filter((task) => selection.includes(task.id));
+    if (selected.length === 0) return;
+    const label = new Date().toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+    setDraft(toDraft(templateFromTasks(`My day · ${label}`, '', selected), null));
+    setSelection([]);
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!draft || !draft.name.trim()) return;
+    const tasks = draft.rows
+      .filter((row) => row.title.trim() && /^\d{2}:\d{2}$/.test(row.time))
+      .map((row) => {
+        const [hour, minute] = row.time.split(':').map(Number);
+        const durationMinutes = Math.round(Number(row.duration));
+        const checklist = row.checklist
+          .split('\n')
+          .map((line) => line.trim())
+          .filter(Boolean);
+        return {
+          title: row.title.trim(),
+          notes: row.notes.trim(),
+          hour,
+          minute,
+          ...(durationMinutes > 0 ? { durationMinutes } : {}),
+          ...(checklist.length > 0 ? { checklist } : {}),
+        };
+      })
+      .sort((a, b) => a.hour * 60 + a.minute - (b.hour * 60 + b.minute));
+    if (tasks.length === 0) return;
+    const template: Template = {
+      id: draft.id ?? createId(),
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+      tasks,
+    };
+    onChange(
+      draft.id
+        ? templates.map((item) => (item.id === draft.id ? template : item))
+        : [...templates, template],
+    );
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-4 rounded-2xl border border-white/10 bg-black/40 p-4 text-sm text-slate-300">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold uppercase tracking-[0.4em] text-slate-300">
+          My templates
+        </span>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-xs uppercase tracking-[0.3em] text-slate-400 hover:text-slate-200"
+        >
+          Close
+        </button>
+      </div>
+
+      {templates.length === 0 ? (
+        <p className="text-xs text-slate-400">
+          No custom templates yet. Build one from scratch or save tasks from today.
+        </p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {templates.map((template, index) => (
+            <li
+              key={template.id}
+              className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-2"
+            >
+              <div>
+                <p className="font-semibold text-slate-100">{template.name}</p>
+                <p className="text-xs text-slate-400">
+                  {template.tasks.length} {template.tasks.length === 1 ? 'task' : 'tasks'}
+                  {template.description ? ` · ${template.description}` : ''}
+                </p>
+              </div>
+              <div className="flex gap-1 text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
+                <button
+                  type="button"
+                  disabled={index === 0}
+                  onClick={() => onChange(moveTemplate(templates, template.id, -1))}
+                  className={pillClass}
+                  aria-label={`Move ${template.name} up`}
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  disabled={index === templates.length - 1}
+                  onClick={() => onChange(moveTemplate(templates, template.id, 1))}
+                  className={pillClass}
+                  aria-label={`Move ${template.name} down`}
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setDraft(toDraft(template, template.id))}
+                  className={pillClass}
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onChange(templates.filter((item) => item.id !== template.id))}
+                  className="rounded-full border border-white/20 px-3 py-1 transition hover:border-rose-400/60 hover:bg-rose-500/10 hover:text-rose-200"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft ? (
+        <form
+          onSubmit={handleSubmit}
+          className="flex flex-col gap-3 rounded-xl border border-emerald-300/20 bg-emerald-300/5 p-3"
+        >
+          <input
+            value={draft.name}
+            onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+            placeholder="Template name"
+            className={inputClass}
+            required
+          />
+          <input
+            value={draft.description}
+            onChange={(event) => setDraft({ ...draft, description: event.target.value })}
+            placeholder="Short description"
+            className={inputClass}
+          />
+          {draft.rows.map((row, index) => (
+            <div key={index} className="grid grid-cols-[6rem,1fr,auto] items-start gap-2">
+              <div className="flex flex-col gap-1">
+                <input
+                  type="time"
+                  value={row.time}
+                  onChange={(event) => updateRow(index, { time: event.target.value })}
+                  className={inputClass}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step={5}
+                  value={row.duration}
+                  onChange={(event) => updateRow(index, { duration: event.target.value })}
+                  placeholder="Min"
+                  aria-label="Duration in minutes"
+                  className={inputClass}
+                />
+              </div>
+              <div className="flex flex-col gap-1">
+                <input
+                  value={row.title}
+                  onChange={(event) => updateRow(index, { title: event.target.value })}
+                  placeholder="Title"
+                  className={inputClass}
+                />
+                <input
+                  value={row.notes}
+                  onChange={(event) => updateRow(index, { notes: event.target.value })}
+                  placeholder="Notes"
+                  className={inputClass}
+                />
+                <textarea
+                  value={row.checklist}
+                  onChange={(event) => updateRow(index, { checklist: event.target.value })}
+                  placeholder="Checklist, one item per line"
+                  rows={2}
+                  className={inputClass}
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => setDraft({ ...draft, rows: draft.rows.filter((_, rowIndex) => rowIndex !== index) })}
+                className="rounded-full border border-white/20 px-2 py-1 text-xs transition hover:border-rose-400/60 hover:text-rose-200"
+                aria-label="Remove task"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-2 text-xs font-semibold uppercase tracking-[0.3em]">
+            <button
+              type="button"
+              onClick={() => setDraft({ ...draft, rows: [...draft.rows, emptyRow] })}
+              className={pillClass}
+            >
+              Add task
+            </button>
+            <button
+              type="submit"
+              className="rounded-full bg-emerald-500 px-4 py-1 text-emerald-950 transition hover:bg-emerald-400"
+            >
+              Save template
+            </button>
+            <button type="button" onClick={() => setDraft(null)} className={pillClass}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setDraft({ id: null, name: '', description: '', rows: [emptyRow] })}
+          className={`${pillClass} self-start text-xs font-semibold uppercase tracking-[0.3em]`}
+        >
+          New template
+        </button>
+      )}
+
+      {dayTasks.length > 0 && !draft ? (
+        <div className="flex flex-col gap-2 border-t border-white/10 pt-3">
+          <span className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+            Save today as template
+          </span>
+          {dayTasks.map((task) => (
+            <label key={task.id} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={selection.includes(task.id)}
+                onChange={() => toggleSelection(task.id)}
+              />
+              <span className="text-slate-400">
+                {new Date(task.scheduledFor).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </span>
+              <span className="text-slate-200">{task.title}</span>
+            </label>
+          ))}
+          <button
+            type="button"
+            disabled={selection.length === 0}
+            onClick={handleSaveSelection}
+            className={`${pillClass} self-start text-xs font-semibold uppercase tracking-[0.3em]`}
+          >
+            Create from {selection.length} selected
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
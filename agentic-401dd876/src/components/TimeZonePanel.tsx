@@ -0,0 +1,73 @@
+import { deviceZone, listZones, zoneLabel, type ZoneSettings } from '../planner/zones';
+
+type TimeZonePanelProps = {
+  settings: ZoneSettings;
+  now: number;
+  onChange: (settings: ZoneSettings) => void;
+  onClose: () => void;
+};
+
+export default function TimeZonePanel({ settings, now, onChange, onClose }: TimeZonePanelProps) {
+  const device = deviceZone();
+  const zones = listZones();
+
+  return (
+    <section className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-white/5 p-6 text-sm text-slate-300 backdrop-blur">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-slate-100">Time zone</h2>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-full border border-white/20 px-3 py-1 text-xs font-semibold uppercase tracking-[0.3em] text-slate-300 transition hover:border-white/40"
+        >
+          Close
+        </button>
+      </div>
+
+      <p>This device is on {zoneLabel(device, now)}.</p>
+
+      <label className="flex items-start gap-3">
+        <input
+          type="radio"
+          name="zone-mode"
+          checked={settings.mode === 'device'}
+          onChange={() => onChange({ ...settings, mode: 'device' })}
+          className="mt-1 h-4 w-4 accent-emerald-400"
+        />
+        <span>
+          Follow this device. Templates and repeating tasks keep their clock time wherever you are,
+          so 7:00 stays 7:00 after you travel.
+        </span>
+      </label>
+
+      <label className="flex items-start gap-3">
+        <input
+          type="radio"
+          name="zone-mode"
+          checked={settings.mode === 'home'}
+          onChange={() => onChange({ ...settings, mode: 'home' })}
+          className="mt-1 h-4 w-4 accent-emerald-400"
+        />
+        <span>
+          Stay on a home zone. New times are typed in it and repeats keep its clock, so 7:00 at home
+          may ring at 13:00 abroad.
+        </span>
+      </label>
+
+      <label className="flex flex-wrap items-center gap-3">
+        Home zone
+        <select
+          value={settings.homeZone}
+          onChange={(event) => onChange({ ...settings, homeZone: event.target.value })}
+          className="rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring"
+        >
+          {(zones.includes(settings.homeZone) ? zones : [settings.homeZone, ...zones]).map((zone) => (
+            <option key={zone} value={zone}>
+              {zone.replace(/_/g, ' ')}
+            </option>
+          ))}
+        </select>
+      </label>
+    </section>
+  );
+}
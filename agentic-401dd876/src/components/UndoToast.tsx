@@ -0,0 +1,31 @@
+type UndoToastProps = {
+  label: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+};
+
+export default function UndoToast({ label, onUndo, onDismiss }: UndoToastProps) {
+  return (
+    <div
+      role="status"
+      className="fixed inset-x-0 bottom-6 z-40 mx-auto flex w-fit items-center gap-4 rounded-2xl border border-white/10 bg-slate-900/95 px-5 py-3 text-sm text-slate-200 shadow-2xl backdrop-blur"
+    >
+      <span>{label}</span>
+      <button
+        type="button"
+        onClick={onUndo}
+        className="rounded-full border border-emerald-400/60 px-3 py-1 text-xs font-semibold uppercase tracking-[0.3em] text-emerald-200 transition hover:bg-emerald-400/20"
+      >
+        Undo
+      </button>
+      <button
+        type="button"
+        onClick={onDismiss}
+        className="text-slate-500 transition hover:text-slate-300"
+        aria-label="Dismiss"
+      >
+        ×
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import {
+  createWebhookTarget,
+  isMaskedSecret,
+  WEBHOOK_EVENTS,
+  type WebhookDelivery,
+  type WebhookTarget,
+} from '../planner/webhooks';
+
+type WebhookPanelProps = {
+  targets: WebhookTarget[];
+  deliveries: WebhookDelivery[];
+  status: string | null;
+  onSave: (targets: WebhookTarget[]) => void;
+  onTest: (targetId: string) => void;
+  onRefresh: () => void;
+  onClose: () => void;
+};
+
+const inputClass =
+  'rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm text-slate-100 outline-none ring-emerald-400/40 transition focus:ring';
+
+const buttonClass =
+  'rounded-full border border-white/20 px-3 py-1 text-xs font-semibold uppercase tracking-[0.3em] text-slate-300 transition hover:border-white/40';
+
+const DELIVERIES_SHOWN = 20;
+
+export default function WebhookPanel({
+  targets,
+  deliveries,
+  status,
+  onSave,
+  onTest,
+  onRefresh,
+  onClose,
+}: WebhookPanelProps) {
+  const [drafts, setDrafts] = useState(targets);
+  const saved = JSON.stringify(drafts) === JSON.stringify(targets);
+
+  const update = (targetId: string, changes: Partial<WebhookTarget>) =>
+    setDrafts((prev) =>
+      prev.map((target) => (target.id === targetId ? { ...target, ...changes } : target)),
+    );
+
+  return (
+    <section className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-white/5 p-6 text-sm text-slate-300 backdrop-blur">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-slate-100">Webhooks</h2>
+        <button type="button" onClick={onClose} className={buttonClass}>
+          Close
+        </button>
+      </div>
+
+      <p>
+        Each target gets a signed JSON POST when a task is due, completed, snoozed or overdue. The
+        X-Planner-Signature header is an HMAC-SHA256 of the body using the target&apos;s secret.
+        Failed deliveries are retried twice.
+      </p>
+
+      {drafts.map((target) => (
+        <div
+          key={target.id}
+          className="flex flex-col gap-3 rounded-2xl border border-white/10 bg-black/20 p-4"
+        >
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              value={target.name}
+              onChange={(event) => update(target.id, { name: event.target.value })}
+              placeholder="Name"
+              className={`${inputClass} w-40`}
+            />
+            <input
+              type="url"
+              value={target.url}
+              onChange={(event) => update(target.id, { url: event.target.value })}
+              placeholder="https://example.com/hooks/planner"
+              className={`${inputClass} min-w-[16rem] flex-1`}
+            />
+          </div>
+          <label className="flex flex-wrap items-center gap-2">
+            Secret
+            <input
+              value={target.secret}
+              onChange={(event) => update(target.id, { secret: event.target.value })}
+              className={`${inputClass} flex-1 font-mono text-xs`}
+            />
+          </label>
+          {isMaskedSecret(target.secret) ? null : (
+            <p className="text-xs text-amber-200">
+              Copy the secret to your receiver now; it is hidden once saved.
+            </p>
+          )}
+          <div className="flex flex-wrap items-center gap-4 text-xs">
+            {WEBHOOK_EVENTS.map((event) => (
+              <label key={event} className="flex items-center gap-2 capitalize">
+                <input
+                  type="checkbox"
+                  checked={target.events.includes(event)}
+                  onChange={(change) =>
+                    update(target.id, {
+                      events: change.target.checked
+                        ? WEBHOOK_EVENTS.filter((item) => item === event || target.events.includes(item))
+                        : target.events.filter((item) => item !== event),
+                    })
+                  }
+                  className="h-4 w-4 accent-emerald-400"
+                />
+                {event}
+              </label>
+            ))}
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={target.enabled}
+                onChange={(event) => update(target.id, { enabled: event.target.checked })}
+                className="h-4 w-4 accent-emerald-400"
+              />
+              Enabled
+            </label>
+            <span className="flex-1" />
+            <button
+              type="button"
+              onClick={() => onTest(target.id)}
+              disabled={!saved}
+              title={saved ? undefined : 'Save first'}
+              className={`${buttonClass} disabled:cursor-not-allowed disabled:opacity-40`}
+            >
+              Send test
+            </button>
+            <button
+              type="button"
+              onClick={() => setDrafts((prev) => prev.filter((item) => item.id !== target.id))}
+              className="rounded-full border border-rose-400/40 px-3 py-1 font-semibold uppercase tracking-[0.3em] text-rose-200 transition hover:bg-rose-400/20"
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setDrafts((prev) => [...prev, createWebhookTarget()])}
+          className={buttonClass}
+        >
+          Add webhook
+        </button>
+        <button
+          type="button"
+          onClick={() => onSave(drafts)}
+          disabled={saved}
+          className="rounded-full border border-emerald-400/60 px-3 py-1 text-xs font-semibold uppercase tracking-[0.3em] text-emerald-200 transition hover:bg-emerald-400/20 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          Save
+        </button>
+        {status ? <span className="text-xs text-slate-400">{status}</span> : null}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-300">
+            Delivery log
+          </span>
+          <button type="button" onClick={onRefresh} className={buttonClass}>
+            Refresh
+          </button>
+        </div>
+        {deliveries.length === 0 ? <p className="text-slate-500">Nothing sent yet.</p> : null}
+        <ul className="flex flex-col gap-1 text-xs">
+          {deliveries.slice(0, DELIVERIES_SHOWN).map((delivery) => (
+            <li key={delivery.id} className="flex flex-wrap items-center gap-2">
+              <span
+                className={`rounded-full px-2 py-0.5 ${
+                  delivery.ok ? 'bg-emerald-400/10 text-emerald-200' : 'bg-rose-400/10 text-rose-200'
+                }`}
+              >
+                {delivery.ok ? delivery.status : delivery.error}
+              </span>
+              <span className="text-slate-500">
+                {new Date(delivery.at).toLocaleString([], {
+                  month: 'short',
+                  day: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+              </span>
+              <span>
+                {delivery.event} · {delivery.taskTitle} → {delivery.targetName}
+              </span>
+              {delivery.attempts > 1 ? (
+                <span className="text-slate-500">{delivery.attempts} attempts</span>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </section>
+  );
+}
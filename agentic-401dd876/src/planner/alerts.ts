@@ -0,0 +1,68 @@
+import type { Task } from './tasks';
+
+export type Alert = {
+  id: string;
+  taskId: string;
+  title: string;
+  heading: string;
+  message: string;
+  triggeredAt: number;
+  scheduledFor: string;
+  soundId: string;
+  silenced: boolean;
+};
+
+export const ALERTS_KEY = 'agentic-401dd876::alerts';
+// After this long without a response an alert moves to the missed-alerts inbox.
+export const ALERT_DURATION_MS = 45000;
+export const SNOOZE_OPTIONS = [5, 10, 30];
+
+const isAlert = (value: unknown): value is Alert => {
+  if (!value || typeof value !== 'object') return false;
+  const alert = value as Record<string, unknown>;
+  return (
+    typeof alert.id === 'string' &&
+    typeof alert.taskId === 'string' &&
+    typeof alert.title === 'string' &&
+    typeof alert.heading === 'string' &&
+    typeof alert.message === 'string' &&
+    typeof alert.triggeredAt === 'number' &&
+    typeof alert.scheduledFor === 'string' &&
+    typeof alert.soundId === 'string' &&
+    (alert.silenced === undefined || typeof alert.silenced === 'boolean')
+  );
+};
+
+export const readAlerts = (): Alert[] => {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(ALERTS_KEY) ?? '[]');
+    return Array.isArray(parsed)
+      ? parsed.filter(isAlert).map((alert) => ({ ...alert, silenced: alert.silenced === true }))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const persistAlerts = (alerts: Alert[]) => {
+  if (typeof window === 'undefined') return;
+  if (alerts.length === 0) {
+    window.localStorage.removeItem(ALERTS_KEY);
+    return;
+  }
+  window.localStorage.setItem(ALERTS_KEY, JSON.stringify(alerts));
+};
+
+// An alert resolves itself once its task is completed, deleted or moved to another time.
+export const openAlerts = (alerts: Alert[], tasks: Task[]) =>
+  alerts.filter((alert) =>
+    tasks.some(
+      (task) =>
+        task.id === alert.taskId && !task.completed && task.scheduledFor === alert.scheduledFor,
+    ),
+  );
+
+export const isMissed = (alert: Alert, now: number) => now - alert.triggeredAt > ALERT_DURATION_MS;
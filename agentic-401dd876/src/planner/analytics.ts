@@ -0,0 +1,136 @@
+import { dayKey, type ArchivedDay } from './archive';
+import { addDays, startOfDay, startOfWeek } from './calendarLayout';
+import type { Task } from './tasks';
+import { toBlock } from './timeblocks';
+
+export type PeriodStats = {
+  start: number;
+  total: number;
+  completed: number;
+};
+
+export type TemplateStats = {
+  templateId: string;
+  total: number;
+  completed: number;
+};
+
+export type PlannerStats = {
+  days: PeriodStats[];
+  weeks: PeriodStats[];
+  onTime: number;
+  late: number;
+  snoozes: number;
+  snoozedTasks: number;
+  templates: TemplateStats[];
+  currentStreak: number;
+  bestStreak: number;
+};
+
+const STAT_DAYS = 14;
+const STAT_WEEKS = 8;
+// Finishing a task up to this long after its block ends still counts as on time.
+const ON_TIME_GRACE_MS = 15 * 60000;
+// A day keeps the streak going when at least this share of its tasks got done.
+const STREAK_RATE = 0.8;
+
+// Live tasks win over archived copies of the same task.
+export const collectHistory = (tasks: Task[], archive: ArchivedDay[]) => {
+  const history = new Map<string, Task>();
+  archive.forEach((day) => day.tasks.forEach((task) => history.set(task.id, task)));
+  tasks.forEach((task) => history.set(task.id, task));
+  return [...history.values()];
+};
+
+const startOf = (task: Task) => new Date(task.scheduledFor).getTime();
+
+const tally = (tasks: Task[], start: number, end: number): PeriodStats => {
+  const inPeriod = tasks.filter((task) => startOf(task) >= start && startOf(task) < end);
+  return {
+    start,
+    total: inPeriod.length,
+    completed: inPeriod.filter((task) => task.completed).length,
+  };
+};
+
+export const completionRate = (stats: { total: number; completed: number }) =>
+  stats.total === 0 ? 0 : stats.completed / stats.total;
+
+// Days with nothing planned neither extend nor break a streak. Today only counts once it
+// qualifies, so an unfinished morning doesn't reset the streak to zero.
+const streaks = (tasks: Task[], now: number) => {
+  const byDay = new Map<string, Task[]>();
+  tasks
+    .filter((task) => startOf(task) < addDays(startOfDay(now), 1))
+    .forEach((task) => {
+      const key = dayKey(startOf(task));
+      byDay.set(key, [...(byDay.get(key) ?? []), task]);
+    });
+  const qualifies = [...byDay.keys()]
+    .sort()
+    .map((key) => {
+      const dayTasks = byDay.get(key) ?? [];
+      return {
+        key,
+        passed:
+          completionRate({
+            total: dayTasks.length,
+            completed: dayTasks.filter((task) => task.completed).length,
+          }) >= STREAK_RATE,
+      };
+    });
+  const today = dayKey(now);
+  const settled = qualifies.filter((day) => day.key !== today || day.passed);
+
+  let bestStreak = 0;
+  let run = 0;
+  settled.forEach((day) => {
+    run = day.passed ? run + 1 : 0;
+    bestStreak = Math.max(bestStreak, run);
+  });
+  let currentStreak = 0;
+  for (let index = settled.length - 1; index >= 0 && settled[index].passed; index -= 1) {
+    currentStreak += 1;
+  }
+  return { currentStreak, bestStreak };
+};
+
+export const computeStats = (tasks: Task[], archive: ArchivedDay[], now: number): PlannerStats => {
+  const history = collectHistory(tasks, archive);
+  const today = startOfDay(now);
+  const thisWeek = startOfWeek(now);
+  const finished = history.filter((task) => task.completed && task.completedAt);
+  const onTime = finished.filter(
+    (task) => new Date(task.completedAt ?? 0).getTime() <= toBlock(task).end + ON_TIME_GRACE_MS,
+  ).length;
+
+  const templates = new Map<string, TemplateStats>();
+  history
+    .filter((task) => task.templateId && startOf(task) <= now)
+    .forEach((task) => {
+      const id = task.templateId ?? '';
+      const current = templates.get(id) ?? { templateId: id, total: 0, completed: 0 };
+      templates.set(id, {
+        ...current,
+        total: current.total + 1,
+        completed: current.completed + (task.completed ? 1 : 0),
+      });
+    });
+
+  return {
+    days: Array.from({ length: STAT_DAYS }, (_, index) => {
+      const start = addDays(today, index - STAT_DAYS + 1);
+      return tally(history, start, addDays(start, 1));
+    }),
+    weeks: Array.from({ length: STAT_WEEKS }, (_, index) => {
+      const start = addDays(thisWeek, (index - STAT_WEEKS + 1) * 7);
+      return tally(history, start, addDays(start, 7));
+    }),
+    onTime,
+    late: finished.length - onTime,
+    snoozes: history.reduce((sum, task) => sum + task.snoozeCount, 0),
+    snoozedTasks: history.filter((task) => task.snoozeCount > 0).length,
+    templates: [...templates.values()],
+    ...streaks(history, now),
+  };
+};
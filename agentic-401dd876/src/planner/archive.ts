@@ -0,0 +1,152 @@
+import { startOfDay } from './calendarLayout';
+import { createNextOccurrence } from './recurrence';
+import { migrateTasks, SCHEMA_VERSION } from './storage';
+import type { Task } from './tasks';
+import { fromWallTime, shiftDays, wallTime } from './zones';
+
+export type ArchivedDay = {
+  date: string;
+  archivedAt: string;
+  tasks: Task[];
+};
+
+export type RolloverMode = 'off' | 'move' | 'missed';
+
+export const ARCHIVE_KEY = 'agentic-401dd876::archive';
+export const ROLLOVER_KEY = 'agentic-401dd876::rollover';
+// Older days are dropped so the archive stays well inside the localStorage quota.
+const ARCHIVE_DAYS = 180;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+export const dayKey = (time: number) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const parseDayKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  const time = new Date(year, month - 1, day).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+export const readArchive = (): ArchivedDay[] => {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(ARCHIVE_KEY) ?? 'null');
+    if (!parsed || typeof parsed.version !== 'number' || !Array.isArray(parsed.days)) {
+      return [];
+    }
+    // Archived tasks go through the same migrations as live ones; anything that fails is dropped.
+    return (parsed.days as ArchivedDay[])
+      .filter((day) => typeof day?.date === 'string' && Array.isArray(day.tasks))
+      .map((day) => ({
+        date: day.date,
+        archivedAt: typeof day.archivedAt === 'string' ? day.archivedAt : '',
+        tasks: migrateTasks(day.tasks, parsed.version).tasks,
+      }));
+  } catch {
+    return [];
+  }
+};
+
+export const persistArchive = (archive: ArchivedDay[]) => {
+  if (typeof window === 'undefined') return;
+  if (archive.length === 0) {
+    window.localStorage.removeItem(ARCHIVE_KEY);
+    return;
+  }
+  window.localStorage.setItem(
+    ARCHIVE_KEY,
+    JSON.stringify({ version: SCHEMA_VERSION, days: archive }),
+  );
+};
+
+export const readRolloverMode = (): RolloverMode => {
+  if (typeof window === 'undefined') {
+    return 'off';
+  }
+  const stored = window.localStorage.getItem(ROLLOVER_KEY);
+  return stored === 'move' || stored === 'missed' ? stored : 'off';
+};
+
+export const persistRolloverMode = (mode: RolloverMode) => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(ROLLOVER_KEY, mode);
+};
+
+// Files tasks under the day they were scheduled for, newest day first. A task archived twice
+// keeps its latest copy.
+export const archiveTasks = (archive: ArchivedDay[], tasks: Task[], now: number): ArchivedDay[] => {
+  if (tasks.length === 0) {
+    return archive;
+  }
+  const archivedAt = new Date(now).toISOString();
+  const days = new Map(archive.map((day) => [day.date, day]));
+  tasks.forEach((task) => {
+    const date = dayKey(new Date(task.scheduledFor).getTime());
+    const existing = days.get(date);
+    days.set(date, {
+      date,
+      archivedAt,
+      tasks: [...(existing?.tasks.filter((item) => item.id !== task.id) ?? []), task].sort(
+        (a, b) => new Date(a.scheduledFor).getTime() - new Date(b.scheduledFor).getTime(),
+      ),
+    });
+  });
+  return [...days.values()]
+    .sort((a, b) => (a.date < b.date ? 1 : a.date > b.date ? -1 : 0))
+    .slice(0, ARCHIVE_DAYS);
+};
+
+export const archivedDay = (archive: ArchivedDay[], day: number) =>
+  archive.find((entry) => entry.date === dayKey(day)) ?? null;
+
+// Clears out everything scheduled before today. Finished tasks are archived either way; unfinished
+// ones move to the same time today on their own zone's clock, or are archived as missed. Recurring
+// occurrences are never moved, since the series already has a slot today; archiving one spawns its
+// next occurrence.
+export const rollOver = (tasks: Task[], mode: RolloverMode, now: number) => {
+  if (mode === 'off') {
+    return null;
+  }
+  const today = startOfDay(now);
+  const isPast = (task: Task) => new Date(task.scheduledFor).getTime() < today;
+  if (!tasks.some(isPast)) {
+    return null;
+  }
+  const archived: Task[] = [];
+  const kept = tasks.filter((task) => !isPast(task));
+  tasks.filter(isPast).forEach((task) => {
+    if (mode === 'move' && !task.completed && !task.series) {
+      const start = wallTime(new Date(task.scheduledFor).getTime(), task.timeZone);
+      const day = {
+        ...wallTime(now, task.timeZone),
+        hour: start.hour,
+        minute: start.minute,
+        second: 0,
+      };
+      let moved = fromWallTime(day, task.timeZone);
+      // A zone behind this device can still be on yesterday's date.
+      if (moved.getTime() < today) {
+        moved = fromWallTime(shiftDays(day, 1), task.timeZone);
+      }
+      const scheduledFor = moved.toISOString();
+      kept.push({
+        ...task,
+        scheduledFor,
+        notifiedAt: moved.getTime() > now ? null : task.notifiedAt,
+        remindersSent: {},
+      });
+      return;
+    }
+    archived.push(task);
+    if (!task.completed) {
+      const occurrence = createNextOccurrence(task, kept, now);
+      if (occurrence) kept.push(occurrence);
+    }
+  });
+  return { tasks: kept, archived };
+};
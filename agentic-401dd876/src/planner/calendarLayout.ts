@@ -0,0 +1,99 @@
+import type { Task } from './tasks';
+import { toBlock } from './timeblocks';
+
+export type CalendarBlock = {
+  task: Task;
+  startMinute: number;
+  endMinute: number;
+  column: number;
+  columns: number;
+};
+
+const MINUTE_MS = 60000;
+const DAY_MINUTES = 24 * 60;
+// Tasks without a duration still need something to grab.
+export const MIN_BLOCK_MINUTES = 15;
+export const SNAP_MINUTES = 15;
+
+export const startOfDay = (time: number) => {
+  const day = new Date(time);
+  day.setHours(0, 0, 0, 0);
+  return day.getTime();
+};
+
+export const addDays = (time: number, days: number) => {
+  const day = new Date(time);
+  day.setDate(day.getDate() + days);
+  return day.getTime();
+};
+
+export const startOfWeek = (time: number) => {
+  const day = new Date(startOfDay(time));
+  return addDays(day.getTime(), -day.getDay());
+};
+
+export const snapMinutes = (minutes: number) => Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+
+// Places the day's tasks on the hour grid. Overlapping blocks share the width side by side, with
+// each cluster of overlaps getting as many columns as it needs.
+export const layoutDay = (tasks: Task[], dayStart: number): CalendarBlock[] => {
+  const dayEnd = addDays(dayStart, 1);
+  const blocks = tasks
+    .map((task) => ({ task, block: toBlock(task) }))
+    .filter(({ block }) => block.start < dayEnd && Math.max(block.end, block.start + 1) > dayStart)
+    .map(({ task, block }) => {
+      const startMinute = Math.max(0, Math.round((block.start - dayStart) / MINUTE_MS));
+      const endMinute = Math.min(
+        DAY_MINUTES,
+        Math.max(startMinute + MIN_BLOCK_MINUTES, Math.round((block.end - dayStart) / MINUTE_MS)),
+      );
+      return { task, startMinute, endMinute, column: 0, columns: 1 };
+    })
+    .sort((a, b) => a.startMinute - b.startMinute || b.endMinute - a.endMinute);
+
+  let cluster: CalendarBlock[] = [];
+  let clusterEnd = -1;
+  const closeCluster = () => {
+    const columns = Math.max(1, ...cluster.map((block) => block.column + 1));
+    cluster.forEach((block) => {
+      block.columns = columns;
+    });
+    cluster = [];
+  };
+  blocks.forEach((block) => {
+    if (block.startMinute >= clusterEnd) {
+      closeCluster();
+    }
+    const taken = new Set(
+      cluster.filter((other) => other.endMinute > block.startMinute).map((other) => other.column),
+    );
+    let column = 0;
+    while (taken.has(column)) column += 1;
+    block.column = column;
+    cluster.push(block);
+    clusterEnd = Math.max(clusterEnd, block.endMinute);
+  });
+  closeCluster();
+  return blocks;
+};
+
+// Moves a task to a new start and length. The reminders belong to the old slot, so they are
+// re-armed unless the new start has already passed.
+export const rescheduleTask = (
+  task: Task,
+  start: number,
+  durationMinutes: number | null,
+  now: number,
+): Task => {
+  const scheduledFor = new Date(start).toISOString();
+  if (scheduledFor === task.scheduledFor) {
+    return { ...task, durationMinutes };
+  }
+  return {
+    ...task,
+    scheduledFor,
+    durationMinutes,
+    notifiedAt: start > now ? null : task.notifiedAt,
+    remindersSent: {},
+  };
+};
@@ -0,0 +1,40 @@
+import { createId, type ChecklistItem, type Task } from './tasks';
+
+export const checklistFromTexts = (texts: string[]): ChecklistItem[] =>
+  texts.map((text) => ({ id: createId(), text, done: false }));
+
+// One item per line. Lines that match an existing item keep its id and tick.
+export const parseChecklist = (text: string, existing: ChecklistItem[] = []) => {
+  const unused = [...existing];
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const index = unused.findIndex((item) => item.text === line);
+      if (index < 0) {
+        return checklistFromTexts([line])[0];
+      }
+      return unused.splice(index, 1)[0];
+    });
+};
+
+export const checklistText = (items: ChecklistItem[]) => items.map((item) => item.text).join('\n');
+
+export const checklistProgress = (task: Task) => ({
+  done: task.checklist.filter((item) => item.done).length,
+  total: task.checklist.length,
+});
+
+// Ticking the last item finishes the task when it is set to auto-complete. Unticking never reopens
+// it, so a task marked done by hand stays done.
+export const toggleChecklistItem = (task: Task, itemId: string, now: number): Task => {
+  const checklist = task.checklist.map((item) =>
+    item.id === itemId ? { ...item, done: !item.done } : item,
+  );
+  const finished =
+    task.autoComplete && !task.completed && checklist.length > 0 && checklist.every((item) => item.done);
+  return finished
+    ? { ...task, checklist, completed: true, completedAt: new Date(now).toISOString() }
+    : { ...task, checklist };
+};
@@ -0,0 +1,57 @@
+export type Command = {
+  id: string;
+  label: string;
+  group: string;
+  shortcut?: string;
+  run: () => void;
+};
+
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+export const isPaletteShortcut = (event: KeyboardEvent) =>
+  (event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k';
+
+// Single-key shortcuts only fire without modifiers, so browser shortcuts keep working.
+export const findShortcut = (commands: Command[], event: KeyboardEvent) => {
+  if (event.metaKey || event.ctrlKey || event.altKey) return null;
+  return commands.find((command) => command.shortcut === event.key) ?? null;
+};
+
+const subsequenceScore = (text: string, query: string) => {
+  let position = -1;
+  let gaps = 0;
+  for (const char of query) {
+    const next = text.indexOf(char, position + 1);
+    if (next < 0) return null;
+    gaps += next - position - 1;
+    position = next;
+  }
+  return gaps;
+};
+
+// Every word has to appear as a run of characters in order, so "apl morn" finds
+// "Apply Balanced Morning". Tighter matches sort first.
+export const matchCommands = (commands: Command[], query: string) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return commands;
+  return commands
+    .map((command) => {
+      const text = `${command.group} ${command.label}`.toLowerCase();
+      const scores = words.map((word) => subsequenceScore(text, word));
+      return scores.includes(null)
+        ? null
+        : { command, score: scores.reduce<number>((sum, score) => sum + (score ?? 0), 0) };
+    })
+    .filter((match): match is { command: Command; score: number } => match !== null)
+    .sort((a, b) => a.score - b.score)
+    .map((match) => match.command);
+};
+
+export const isUndoShortcut = (event: KeyboardEvent) =>
+  (event.metaKey || event.ctrlKey) && !event.shiftKey && event.key.toLowerCase() === 'z';
+
+export const isRedoShortcut = (event: KeyboardEvent) =>
+  (event.metaKey || event.ctrlKey) &&
+  ((event.shiftKey && event.key.toLowerCase() === 'z') || event.key.toLowerCase() === 'y');
@@ -0,0 +1,106 @@
+import { parseDayKey } from './archive';
+import { addDays } from './calendarLayout';
+import { PRIORITIES, type Priority, type Task } from './tasks';
+
+export type TaskStatus = 'all' | 'upcoming' | 'overdue' | 'completed';
+
+export type TaskFilter = {
+  status: TaskStatus;
+  tags: string[];
+  priority: Priority | null;
+  from: string | null;
+  to: string | null;
+  query: string;
+};
+
+export const TASK_STATUSES: TaskStatus[] = ['all', 'upcoming', 'overdue', 'completed'];
+
+export const defaultFilter: TaskFilter = {
+  status: 'all',
+  tags: [],
+  priority: null,
+  from: null,
+  to: null,
+  query: '',
+};
+
+const isDayKey = (value: string | null) => value !== null && parseDayKey(value) !== null;
+
+export const parseFilter = (search: string): TaskFilter => {
+  const params = new URLSearchParams(search);
+  const status = params.get('status');
+  const priority = params.get('priority');
+  const from = params.get('from');
+  const to = params.get('to');
+  return {
+    status: TASK_STATUSES.includes(status as TaskStatus) ? (status as TaskStatus) : 'all',
+    tags: params.getAll('tag').filter(Boolean),
+    priority: PRIORITIES.includes(priority as Priority) ? (priority as Priority) : null,
+    from: isDayKey(from) ? from : null,
+    to: isDayKey(to) ? to : null,
+    query: params.get('q') ?? '',
+  };
+};
+
+// Only non-default values end up in the URL, so the plain page stays at a clean address.
+export const serializeFilter = (filter: TaskFilter) => {
+  const params = new URLSearchParams();
+  if (filter.status !== 'all') params.set('status', filter.status);
+  filter.tags.forEach((tag) => params.append('tag', tag));
+  if (filter.priority) params.set('priority', filter.priority);
+  if (filter.from) params.set('from', filter.from);
+  if (filter.to) params.set('to', filter.to);
+  if (filter.query.trim()) params.set('q', filter.query.trim());
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+export const readUrlFilter = (): TaskFilter =>
+  typeof window === 'undefined' ? defaultFilter : parseFilter(window.location.search);
+
+export const persistUrlFilter = (filter: TaskFilter) => {
+  if (typeof window === 'undefined') return;
+  const search = serializeFilter(filter);
+  if (search === window.location.search) return;
+  window.history.replaceState(null, '', `${window.location.pathname}${search}${window.location.hash}`);
+};
+
+export const isOverdue = (task: Task, now: number) =>
+  !task.completed && new Date(task.scheduledFor).getTime() < now;
+
+const matchesStatus = (task: Task, status: TaskStatus, now: number) => {
+  switch (status) {
+    case 'upcoming':
+      return !task.completed;
+    case 'overdue':
+      return isOverdue(task, now);
+    case 'completed':
+      return task.completed;
+    default:
+      return true;
+  }
+};
+
+// Every word of the query has to appear somewhere in the title, notes or tags.
+const matchesQuery = (task: Task, query: string) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = `${task.title} ${task.notes} ${task.tags.join(' ')}`.toLowerCase();
+  return words.every((word) => haystack.includes(word.replace(/^#/, '')));
+};
+
+export const applyFilter = (tasks: Task[], filter: TaskFilter, now: number) => {
+  const from = filter.from ? parseDayKey(filter.from) : null;
+  const toDay = filter.to ? parseDayKey(filter.to) : null;
+  const to = toDay === null ? null : addDays(toDay, 1);
+  return tasks.filter((task) => {
+    const start = new Date(task.scheduledFor).getTime();
+    return (
+      matchesStatus(task, filter.status, now) &&
+      filter.tags.every((tag) => task.tags.includes(tag)) &&
+      (!filter.priority || task.priority === filter.priority) &&
+      (from === null || start >= from) &&
+      (to === null || start < to) &&
+      matchesQuery(task, filter.query)
+    );
+  });
+};
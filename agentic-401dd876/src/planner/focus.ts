@@ -0,0 +1,161 @@
+export type FocusSettings = {
+  workMinutes: number;
+  breakMinutes: number;
+  longBreakMinutes: number;
+  cyclesBeforeLongBreak: number;
+};
+
+export type FocusPhase = 'work' | 'break';
+
+export type FocusSession = {
+  taskId: string;
+  phase: FocusPhase;
+  cycle: number;
+  startedAt: number;
+  endsAt: number;
+  pausedAt: number | null;
+};
+
+export const FOCUS_SETTINGS_KEY = 'agentic-401dd876::focus-settings';
+export const FOCUS_SESSION_KEY = 'agentic-401dd876::focus-session';
+const MINUTE_MS = 60000;
+
+export const defaultFocusSettings: FocusSettings = {
+  workMinutes: 25,
+  breakMinutes: 5,
+  longBreakMinutes: 15,
+  cyclesBeforeLongBreak: 4,
+};
+
+const positive = (value: unknown, fallback: number) =>
+  typeof value === 'number' && value > 0 ? Math.round(value) : fallback;
+
+export const readFocusSettings = (): FocusSettings => {
+  if (typeof window === 'undefined') {
+    return defaultFocusSettings;
+  }
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(FOCUS_SETTINGS_KEY) ?? 'null');
+    if (!parsed || typeof parsed !== 'object') {
+      return defaultFocusSettings;
+    }
+    return {
+      workMinutes: positive(parsed.workMinutes, defaultFocusSettings.workMinutes),
+      breakMinutes: positive(parsed.breakMinutes, defaultFocusSettings.breakMinutes),
+      longBreakMinutes: positive(parsed.longBreakMinutes, defaultFocusSettings.longBreakMinutes),
+      cyclesBeforeLongBreak: positive(
+        parsed.cyclesBeforeLongBreak,
+        defaultFocusSettings.cyclesBeforeLongBreak,
+      ),
+    };
+  } catch {
+    return defaultFocusSettings;
+  }
+};
+
+export const persistFocusSettings = (settings: FocusSettings) => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(FOCUS_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const readFocusSession = (): FocusSession | null => {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(FOCUS_SESSION_KEY) ?? 'null');
+    if (
+      !parsed ||
+      typeof parsed.taskId !== 'string' ||
+      (parsed.phase !== 'work' && parsed.phase !== 'break') ||
+      typeof parsed.startedAt !== 'number' ||
+      typeof parsed.endsAt !== 'number'
+    ) {
+      return null;
+    }
+    return {
+      taskId: parsed.taskId,
+      phase: parsed.phase,
+      cycle: typeof parsed.cycle === 'number' ? parsed.cycle : 1,
+      startedAt: parsed.startedAt,
+      endsAt: parsed.endsAt,
+      pausedAt: typeof parsed.pausedAt === 'number' ? parsed.pausedAt : null,
+    };
+  } catch {
+    return null;
+  }
+};
+
+export const persistFocusSession = (session: FocusSession | null) => {
+  if (typeof window === 'undefined') return;
+  if (!session) {
+    window.localStorage.removeItem(FOCUS_SESSION_KEY);
+    return;
+  }
+  window.localStorage.setItem(FOCUS_SESSION_KEY, JSON.stringify(session));
+};
+
+const phaseMinutes = (phase: FocusPhase, cycle: number, settings: FocusSettings) => {
+  if (phase === 'work') return settings.workMinutes;
+  return cycle % settings.cyclesBeforeLongBreak === 0 ? settings.longBreakMinutes : settings.breakMinutes;
+};
+
+export const startFocus = (taskId: string, settings: FocusSettings, now: number): FocusSession => ({
+  taskId,
+  phase: 'work',
+  cycle: 1,
+  startedAt: now,
+  endsAt: now + settings.workMinutes * MINUTE_MS,
+  pausedAt: null,
+});
+
+// Every fourth break (by default) is a long one; a new work cycle starts after each break.
+export const advanceFocus = (
+  session: FocusSession,
+  settings: FocusSettings,
+  now: number,
+): FocusSession => {
+  const phase: FocusPhase = session.phase === 'work' ? 'break' : 'work';
+  const cycle = phase === 'work' ? session.cycle + 1 : session.cycle;
+  return {
+    ...session,
+    phase,
+    cycle,
+    startedAt: now,
+    endsAt: now + phaseMinutes(phase, cycle, settings) * MINUTE_MS,
+    pausedAt: null,
+  };
+};
+
+// Changing the lengths mid-phase stretches or shortens the phase that is running.
+export const resizeFocus = (session: FocusSession, settings: FocusSettings): FocusSession => ({
+  ...session,
+  endsAt: session.startedAt + phaseMinutes(session.phase, session.cycle, settings) * MINUTE_MS,
+});
+
+export const pauseFocus = (session: FocusSession, now: number): FocusSession =>
+  session.pausedAt === null ? { ...session, pausedAt: now } : session;
+
+// Paused time is pushed onto both ends, so elapsed work time stays accurate.
+export const resumeFocus = (session: FocusSession, now: number): FocusSession => {
+  if (session.pausedAt === null) return session;
+  const pausedFor = now - session.pausedAt;
+  return {
+    ...session,
+    startedAt: session.startedAt + pausedFor,
+    endsAt: session.endsAt + pausedFor,
+    pausedAt: null,
+  };
+};
+
+export const remainingMs = (session: FocusSession, now: number) =>
+  Math.max(0, session.endsAt - (session.pausedAt ?? now));
+
+export const isFocusPhaseOver = (session: FocusSession, now: number) =>
+  session.pausedAt === null && now >= session.endsAt;
+
+// Minutes of work done in the running phase; breaks count for nothing.
+export const focusedMinutes = (session: FocusSession, now: number) =>
+  session.phase === 'work'
+    ? Math.max(0, Math.min(session.pausedAt ?? now, session.endsAt) - session.startedAt) / MINUTE_MS
+    : 0;
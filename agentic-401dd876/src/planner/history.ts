@@ -0,0 +1,121 @@
+import { SCHEMA_VERSION } from './storage';
+import type { Task } from './tasks';
+
+export type TaskChange = {
+  id: string;
+  before: Task | null;
+  after: Task | null;
+};
+
+export type HistoryEntry = {
+  id: string;
+  label: string;
+  at: number;
+  changes: TaskChange[];
+};
+
+export type ActionHistory = {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+};
+
+export const HISTORY_KEY = 'agentic-401dd876::history';
+const HISTORY_LIMIT = 50;
+// What is kept when the full history no longer fits in localStorage.
+const HISTORY_FALLBACK_LIMIT = 10;
+
+export const emptyHistory: ActionHistory = { past: [], future: [] };
+
+export const diffTasks = (before: Task[], after: Task[]): TaskChange[] => {
+  const previous = new Map(before.map((task) => [task.id, task]));
+  const next = new Map(after.map((task) => [task.id, task]));
+  const changes: TaskChange[] = [];
+  previous.forEach((task, id) => {
+    const updated = next.get(id) ?? null;
+    if (!updated || JSON.stringify(updated) !== JSON.stringify(task)) {
+      changes.push({ id, before: task, after: updated });
+    }
+  });
+  next.forEach((task, id) => {
+    if (!previous.has(id)) {
+      changes.push({ id, before: null, after: task });
+    }
+  });
+  return changes;
+};
+
+// Only the tasks an action touched are rewritten, so undoing a delete doesn't roll back a
+// reminder that fired in the meantime on some other task.
+export const applyChanges = (tasks: Task[], changes: TaskChange[], direction: 'undo' | 'redo') => {
+  const targets = new Map(
+    changes.map((change) => [change.id, direction === 'undo' ? change.before : change.after]),
+  );
+  const kept = tasks
+    .filter((task) => !targets.has(task.id) || targets.get(task.id) !== null)
+    .map((task) => targets.get(task.id) ?? task);
+  const added = [...targets.values()].filter(
+    (task): task is Task => task !== null && !tasks.some((item) => item.id === task.id),
+  );
+  return [...kept, ...added];
+};
+
+export const recordEntry = (history: ActionHistory, entry: HistoryEntry): ActionHistory => ({
+  past: [...history.past, entry].slice(-HISTORY_LIMIT),
+  future: [],
+});
+
+export const stepBack = (history: ActionHistory): ActionHistory => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return history;
+  return { past: history.past.slice(0, -1), future: [entry, ...history.future] };
+};
+
+export const stepForward = (history: ActionHistory): ActionHistory => {
+  const [entry, ...future] = history.future;
+  if (!entry) return history;
+  return { past: [...history.past, entry], future };
+};
+
+// History written under another schema version holds task shapes we no longer trust, so it is
+// dropped rather than migrated.
+export const readHistory = (): ActionHistory => {
+  if (typeof window === 'undefined') {
+    return emptyHistory;
+  }
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(HISTORY_KEY) ?? 'null');
+    if (
+      !parsed ||
+      parsed.version !== SCHEMA_VERSION ||
+      !Array.isArray(parsed.past) ||
+      !Array.isArray(parsed.future)
+    ) {
+      return emptyHistory;
+    }
+    return { past: parsed.past, future: parsed.future };
+  } catch {
+    return emptyHistory;
+  }
+};
+
+export const persistHistory = (history: ActionHistory) => {
+  if (typeof window === 'undefined') return;
+  if (history.past.length === 0 && history.future.length === 0) {
+    window.localStorage.removeItem(HISTORY_KEY);
+    return;
+  }
+  const write = (value: ActionHistory) =>
+    window.localStorage.setItem(HISTORY_KEY, JSON.stringify({ version: SCHEMA_VERSION, ...value }));
+  try {
+    write(history);
+  } catch {
+    try {
+      write({
+        past: history.past.slice(-HISTORY_FALLBACK_LIMIT),
+        future: history.future.slice(0, HISTORY_FALLBACK_LIMIT),
+      });
+    } catch {
+      window.localStorage.removeItem(HISTORY_KEY);
+    }
+  }
+};
@@ -0,0 +1,318 @@
+import { nextOccurrence, type RecurrenceRule } from './recurrence';
+import { DEFAULT_REMINDER_OFFSETS } from './reminders';
+import { createId, type Task } from './tasks';
+import { deviceZone, fromWallTime, isValidZone } from './zones';
+
+export type CalendarEvent = {
+  uid: string;
+  title: string;
+  notes: string;
+  startsAt: Date;
+  durationMinutes: number | null;
+  rule: RecurrenceRule | null;
+  timeZone: string | null;
+};
+
+export type CalendarMergeResult = {
+  tasks: Task[];
+  added: number;
+  updated: number;
+};
+
+type ContentLine = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+const UID_DOMAIN = 'agentic-401dd876';
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const encoder = new TextEncoder();
+
+export const taskUid = (task: Task) => task.icalUid ?? `${task.id}@${UID_DOMAIN}`;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatUtc = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(
+    date.getUTCHours(),
+  )}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+const foldLine = (line: string) => {
+  const chunks: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, so they get one octet less than the first line.
+    if (size + bytes > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+};
+
+export const exportCalendar = (tasks: Task[], now = new Date()) => {
+  const stamp = formatUtc(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Agentic Day Planner//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+  const written = new Set<string>();
+  tasks.forEach((task) => {
+    // Every occurrence of an imported series keeps its UID so a re-import finds the series; only
+    // the first VEVENT written may use it.
+    const uid = written.has(taskUid(task)) ? `${task.id}@${UID_DOMAIN}` : taskUid(task);
+    written.add(uid);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatUtc(new Date(task.scheduledFor))}`,
+      `SUMMARY:${escapeText(task.title)}`,
+    );
+    if (task.durationMinutes) {
+      lines.push(`DURATION:PT${task.durationMinutes}M`);
+    }
+    if (task.notes) {
+      lines.push(`DESCRIPTION:${escapeText(task.notes)}`);
+    }
+    lines.push('STATUS:CONFIRMED');
+    task.reminderOffsets.forEach((offset) => {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(task.title)}`,
+        `TRIGGER;RELATED=START:${offset > 0 ? `-PT${offset}M` : 'PT0S'}`,
+        'END:VALARM',
+      );
+    });
+    lines.push('END:VEVENT');
+  });
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
+
+const parseContentLine = (line: string): ContentLine | null => {
+  let quoted = false;
+  let colon = -1;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (char === '"') quoted = !quoted;
+    if (char === ':' && !quoted) {
+      colon = index;
+      break;
+    }
+  }
+  if (colon < 0) {
+    return null;
+  }
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+const parseDateValue = (value: string, params: Record<string, string>) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map((part) => Number(part ?? 0));
+  if (match[7]) {
+    return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  }
+  // Unknown zone names fall through to floating local time.
+  if (isValidZone(params.TZID)) {
+    return fromWallTime({ year, month, day, hour, minute, second }, params.TZID);
+  }
+  return new Date(year, month - 1, day, hour, minute, second);
+};
+
+const parseDuration = (value: string) => {
+  const match = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [weeks, days, hours, minutes] = match.slice(1, 5).map((part) => Number(part ?? 0));
+  const total = ((weeks * 7 + days) * 24 + hours) * 60 + minutes;
+  return total > 0 ? total : null;
+};
+
+const parseRule = (
+  value: string,
+  startsAt: Date,
+  timeZone: string | null,
+): RecurrenceRule | null => {
+  const parts = Object.fromEntries(
+    value.split(';').map((part) => {
+      const [key, ...rest] = part.split('=');
+      return [key.toUpperCase(), rest.join('=')];
+    }),
+  );
+  const frequency = parts.FREQ?.toLowerCase();
+  if (frequency !== 'hourly' && frequency !== 'daily' && frequency !== 'weekly') {
+    return null;
+  }
+  const weekdays = (parts.BYDAY ?? '')
+    .split(',')
+    .map((code) => WEEKDAY_CODES.indexOf(code.trim().toUpperCase()))
+    .filter((day) => day >= 0);
+  const until = parts.UNTIL ? parseDateValue(parts.UNTIL, {}) : null;
+  const count = parts.COUNT ? Number(parts.COUNT) : null;
+  return {
+    frequency,
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    weekdays: frequency === 'weekly' ? weekdays : [],
+    startsAt: startsAt.toISOString(),
+    until: until ? until.toISOString() : null,
+    count: count && count > 0 ? count : null,
+    timeZone,
+  };
+};
+
+export const parseCalendar = (text: string): CalendarEvent[] => {
+  const lines = text.replace(/\r\n[ \t]/g, '').replace(/\n[ \t]/g, '').split(/\r?\n/);
+  const events: CalendarEvent[] = [];
+  let current: ContentLine[] | null = null;
+  let depth = 0;
+  for (const line of lines) {
+    const parsed = parseContentLine(line);
+    if (!parsed) continue;
+    if (parsed.name === 'BEGIN') {
+      if (parsed.value.toUpperCase() === 'VEVENT') {
+        current = [];
+        depth = 0;
+      } else if (current) {
+        depth += 1;
+      }
+      continue;
+    }
+    if (parsed.name === 'END') {
+      if (parsed.value.toUpperCase() === 'VEVENT' && current) {
+        const properties = current;
+        const find = (name: string) => properties.find((property) => property.name === name);
+        const start = find('DTSTART');
+        const startsAt = start ? parseDateValue(start.value, start.params) : null;
+        const summary = find('SUMMARY');
+        const status = find('STATUS');
+        if (startsAt && !Number.isNaN(startsAt.getTime()) && status?.value.toUpperCase() !== 'CANCELLED') {
+          const timeZone = isValidZone(start?.params.TZID) ? start.params.TZID : null;
+          const rrule = find('RRULE');
+          const end = find('DTEND');
+          const endsAt = end ? parseDateValue(end.value, end.params) : null;
+          const duration = find('DURATION');
+          const durationMinutes = duration
+            ? parseDuration(duration.value)
+            : endsAt && endsAt.getTime() > startsAt.getTime()
+              ? Math.round((endsAt.getTime() - startsAt.getTime()) / 60000)
+              : null;
+          events.push({
+            uid: find('UID')?.value.trim() || createId(),
+            title: summary ? unescapeText(summary.value).trim() || 'Untitled event' : 'Untitled event',
+            notes: unescapeText(find('DESCRIPTION')?.value ?? '').trim(),
+            startsAt,
+            durationMinutes,
+            rule: rrule ? parseRule(rrule.value, startsAt, timeZone) : null,
+            timeZone,
+          });
+        }
+        current = null;
+      } else if (current) {
+        depth -= 1;
+      }
+      continue;
+    }
+    // Properties of nested components such as VALARM must not override the event's own.
+    if (current && depth === 0) {
+      current.push(parsed);
+    }
+  }
+  return events;
+};
+
+export const mergeCalendarEvents = (
+  tasks: Task[],
+  events: CalendarEvent[],
+  now: number,
+): CalendarMergeResult => {
+  let next = [...tasks];
+  let added = 0;
+  let updated = 0;
+  events.forEach((event) => {
+    const matchesEvent = (task: Task) => taskUid(task) === event.uid;
+    if (next.some(matchesEvent)) {
+      updated += 1;
+      next = next.map((task) => {
+        if (!matchesEvent(task) || task.completed) return task;
+        return {
+          ...task,
+          // Later repeats are built from the series copy, so it takes the new summary too.
+          series: task.series && { ...task.series, title: event.title, notes: event.notes },
+          title: event.title,
+          notes: event.notes,
+          scheduledFor: task.series ? task.scheduledFor : event.startsAt.toISOString(),
+          durationMinutes: event.durationMinutes,
+          notifiedAt:
+            !task.series && event.startsAt.getTime() > now ? null : task.notifiedAt,
+        };
+      });
+      return;
+    }
+    const upcoming =
+      event.rule && event.startsAt.getTime() <= now ? nextOccurrence(event.rule, now) : null;
+    const scheduled = upcoming ?? event.startsAt;
+    added += 1;
+    next.push({
+      id: createId(),
+      title: event.title,
+      notes: event.notes,
+      scheduledFor: scheduled.toISOString(),
+      completed: false,
+      notifiedAt: null,
+      createdAt: new Date(now).toISOString(),
+      series: event.rule
+        ? { id: createId(), title: event.title, notes: event.notes, rule: event.rule }
+        : null,
+      recurrenceId: event.rule ? scheduled.toISOString() : null,
+      icalUid: event.uid,
+      durationMinutes: event.durationMinutes,
+      reminderOffsets: [...DEFAULT_REMINDER_OFFSETS],
+      nagMinutes: null,
+      remindersSent: {},
+      soundId: null,
+      breaksThroughDnd: false,
+      completedAt: null,
+      snoozeCount: 0,
+      templateId: null,
+      tags: [],
+      priority: 'normal',
+      checklist: [],
+      autoComplete: false,
+      focusMinutes: 0,
+      timeZone: event.timeZone ?? deviceZone(),
+    });
+  });
+  return { tasks: next, added, updated };
+};
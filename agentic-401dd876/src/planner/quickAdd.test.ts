@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseQuickAdd } from './quickAdd';
+
+// Monday 2 March 2026 at noon on the device's clock; the parser reads dates in device time.
+const NOW = new Date(2026, 2, 2, 12, 0).getTime();
+
+const scheduledAt = (input: string) => {
+  const { scheduledFor } = parseQuickAdd(input, NOW);
+  return scheduledFor ? new Date(scheduledFor) : null;
+};
+
+describe('parseQuickAdd weekdays', () => {
+  it('keeps an abbreviation that starts an ordinary phrase in the title', () => {
+    const parsed = parseQuickAdd('Sat down with team at 3pm', NOW);
+    assert.equal(parsed.title, 'Sat down with team');
+    const scheduled = scheduledAt('Sat down with team at 3pm');
+    assert.equal(scheduled?.getDay(), 1);
+    assert.equal(scheduled?.getHours(), 15);
+  });
+
+  it('reads an abbreviation after "on", "next" or "this"', () => {
+    for (const input of ['review on sat', 'review next sat', 'review this sat']) {
+      const parsed = parseQuickAdd(input, NOW);
+      assert.equal(parsed.title, 'review', input);
+      assert.equal(scheduledAt(input)?.getDay(), 6, input);
+    }
+  });
+
+  it('reads an abbreviation followed by a time', () => {
+    for (const input of ['gym sat 7am', 'gym sat at 7', 'gym sat 7:00']) {
+      const parsed = parseQuickAdd(input, NOW);
+      assert.equal(parsed.title, 'gym', input);
+      const scheduled = scheduledAt(input);
+      assert.equal(scheduled?.getDay(), 6, input);
+      assert.equal(scheduled?.getHours(), 7, input);
+    }
+  });
+
+  it('reads a full day name anywhere', () => {
+    const parsed = parseQuickAdd('call saturday', NOW);
+    assert.equal(parsed.title, 'call');
+    assert.equal(scheduledAt('call saturday')?.getDay(), 6);
+  });
+});
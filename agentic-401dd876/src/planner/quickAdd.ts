@@ -0,0 +1,174 @@
+import { emptyRecurrenceDraft, type RecurrenceDraft } from './recurrence';
+import type { Priority } from './tasks';
+
+export type QuickAddParse = {
+  title: string;
+  scheduledFor: string | null;
+  durationMinutes: number | null;
+  recurrence: RecurrenceDraft;
+  tags: string[];
+  priority: Priority;
+};
+
+const MINUTE_MS = 60000;
+const DEFAULT_HOUR = 9;
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const DAY_PATTERN =
+  '(?:sun(?:day)?|mon(?:day)?|tue(?:s|sday)?|wed(?:nesday)?|thu(?:rs?|rsday)?|fri(?:day)?|sat(?:urday)?)';
+const FULL_DAY_PATTERN = '(?:sunday|monday|tuesday|wednesday|thursday|friday|saturday)';
+const SHORT_DAY_PATTERN = '(?:sun|mon|tues?|wed|thu(?:rs?)?|fri|sat)';
+const TIME_AHEAD =
+  '\\s+(?:(?:at\\s+)?(?:\\d{1,2}(?::\\d{2})?\\s*(?:am|pm)|\\d{1,2}:\\d{2}|noon|midnight)|at\\s+\\d{1,2})(?=\\s)';
+
+const unitMinutes = (unit: string) => {
+  const first = unit[0].toLowerCase();
+  if (first === 'd') return 24 * 60;
+  if (first === 'h') return 60;
+  return 1;
+};
+
+const parseWeekday = (word: string) => DAY_NAMES.indexOf(word.slice(0, 3).toLowerCase());
+
+const parseWeekdayList = (text: string) =>
+  Array.from(text.matchAll(new RegExp(DAY_PATTERN, 'gi')))
+    .map((match) => parseWeekday(match[0]))
+    .filter((day, index, days) => day >= 0 && days.indexOf(day) === index)
+    .sort((a, b) => a - b);
+
+const DAY_LIST = new RegExp(
+  `\\severy\\s+(${DAY_PATTERN}(?:(?:\\s*,\\s*|\\s+and\\s+|\\s+)${DAY_PATTERN})*)(?=\\s)`,
+  'i',
+);
+// A bare abbreviation is only a day after "on", "next" or "this" or before a time, so "Sat down
+// with the team" keeps its first word.
+const DAY_WORD = new RegExp(
+  `\\s(?:(?:on|next|this)\\s+)?(today|tonight|tomorrow|${FULL_DAY_PATTERN}|` +
+    `(?<=(?:on|next|this)\\s+)${SHORT_DAY_PATTERN}|${SHORT_DAY_PATTERN}(?=${TIME_AHEAD}))(?=\\s)`,
+  'i',
+);
+
+const atTime = (date: Date, hours: number, minutes: number) => {
+  const copy = new Date(date.getTime());
+  copy.setHours(hours, minutes, 0, 0);
+  return copy;
+};
+
+// Parses phrases such as "standup tomorrow 9:15 for 15m #work", "call mom in 2h !high" or
+// "gym every mon wed fri 7am". Whatever is not recognised stays in the title.
+export const parseQuickAdd = (input: string, now: number): QuickAddParse => {
+  let rest = ` ${input} `;
+  const take = (pattern: RegExp) => {
+    const match = rest.match(pattern);
+    if (match) {
+      rest = rest.replace(match[0], ' ');
+    }
+    return match;
+  };
+
+  const tags: string[] = [];
+  let tag = take(/\s#([\w-]+)(?=\s)/);
+  while (tag) {
+    tags.push(tag[1].toLowerCase());
+    tag = take(/\s#([\w-]+)(?=\s)/);
+  }
+
+  const bang = take(/\s(!!|!high|!low)(?=\s)/i);
+  const priority: Priority = !bang ? 'normal' : bang[1].toLowerCase() === '!low' ? 'low' : 'high';
+
+  const duration = take(/\sfor\s+(\d+(?:\.\d+)?)\s*(m|mins?|minutes?|h|hrs?|hours?)(?=\s)/i);
+  const durationMinutes = duration
+    ? Math.round(Number(duration[1]) * unitMinutes(duration[2])) || null
+    : null;
+
+  let recurrence: RecurrenceDraft = emptyRecurrenceDraft;
+  const repeat =
+    take(/\s(?:every\s+)?(daily|hourly|weekly|weekdays)(?=\s)/i) ??
+    take(/\severy\s+(\d+\s+)?(day|hour|week|weekday)s?(?=\s)/i) ??
+    take(DAY_LIST);
+  if (repeat) {
+    const word = (repeat[2] ?? repeat[1]).toLowerCase();
+    const interval = repeat[2] && repeat[1] ? Number(repeat[1]) : 1;
+    if (word.startsWith('weekday')) {
+      recurrence = { ...emptyRecurrenceDraft, preset: 'weekdays' };
+    } else if (word === 'daily' || word === 'day') {
+      recurrence = { ...emptyRecurrenceDraft, preset: 'daily', interval };
+    } else if (word === 'hourly' || word === 'hour') {
+      recurrence = { ...emptyRecurrenceDraft, preset: 'hourly', interval };
+    } else if (word === 'weekly' || word === 'week') {
+      recurrence = { ...emptyRecurrenceDraft, preset: 'weekly', interval };
+    } else {
+      recurrence = { ...emptyRecurrenceDraft, preset: 'weekly', weekdays: parseWeekdayList(word) };
+    }
+  }
+
+  const relative = take(/\sin\s+(\d+(?:\.\d+)?)\s*(m|mins?|minutes?|h|hrs?|hours?|d|days?)(?=\s)/i);
+
+  const today = new Date(now);
+  let day: Date | null = null;
+  const dayWord = take(DAY_WORD);
+  const isoDate = dayWord ? null : take(/\s(?:on\s+)?(\d{4})-(\d{2})-(\d{2})(?=\s)/);
+  if (dayWord) {
+    const word = dayWord[1].toLowerCase();
+    day = new Date(today.getTime());
+    if (word === 'tomorrow') {
+      day.setDate(day.getDate() + 1);
+    } else if (word !== 'today' && word !== 'tonight') {
+      const weekday = parseWeekday(word);
+      day.setDate(day.getDate() + (((weekday - day.getDay() + 7) % 7) || 7));
+    }
+  } else if (isoDate) {
+    day = new Date(Number(isoDate[1]), Number(isoDate[2]) - 1, Number(isoDate[3]));
+  }
+
+  let time: [number, number] | null = null;
+  const clock =
+    take(/\s(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)(?=\s)/i) ??
+    take(/\s(?:at\s+)?(\d{1,2}):(\d{2})(?=\s)/) ??
+    take(/\sat\s+(\d{1,2})()(?=\s)/);
+  const named = clock ? null : take(/\s(?:at\s+)?(noon|midnight)(?=\s)/i);
+  if (clock) {
+    let hours = Number(clock[1]);
+    const minutes = Number(clock[2] || 0);
+    const meridiem = clock[3]?.toLowerCase();
+    if (meridiem === 'pm' && hours < 12) hours += 12;
+    if (meridiem === 'am' && hours === 12) hours = 0;
+    if (hours < 24 && minutes < 60) {
+      time = [hours, minutes];
+    }
+  } else if (named) {
+    time = named[1].toLowerCase() === 'noon' ? [12, 0] : [0, 0];
+  } else if (dayWord?.[1].toLowerCase() === 'tonight') {
+    time = [20, 0];
+  }
+
+  let scheduled: Date | null = null;
+  if (relative) {
+    scheduled = new Date(now + Number(relative[1]) * unitMinutes(relative[2]) * MINUTE_MS);
+    scheduled.setSeconds(0, 0);
+  } else if (day || time || recurrence.preset !== 'none') {
+    const [hours, minutes] = time ?? (day ? [DEFAULT_HOUR, 0] : [today.getHours() + 1, 0]);
+    scheduled = atTime(day ?? today, hours, minutes);
+    if (!day && recurrence.weekdays.length > 0) {
+      // "every mon wed" starts on the first listed day that is still ahead.
+      while (!recurrence.weekdays.includes(scheduled.getDay()) || scheduled.getTime() <= now) {
+        scheduled = atTime(new Date(scheduled.getTime() + 24 * 60 * MINUTE_MS), hours, minutes);
+      }
+    } else if (!day && scheduled.getTime() <= now) {
+      scheduled = atTime(new Date(scheduled.getTime() + 24 * 60 * MINUTE_MS), hours, minutes);
+    }
+  }
+
+  const title = rest
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/\s+(at|on|for|in)$/i, '');
+
+  return {
+    title,
+    scheduledFor: scheduled ? scheduled.toISOString() : null,
+    durationMinutes,
+    recurrence,
+    tags,
+    priority,
+  };
+};
@@ -0,0 +1,86 @@
+export type QuietSettings = {
+  enabled: boolean;
+  start: string;
+  end: string;
+  dndUntil: number | null;
+};
+
+export const QUIET_SETTINGS_KEY = 'agentic-401dd876::quiet-hours';
+export const DND_DURATIONS = [30, 60, 120, 240];
+
+export const defaultQuietSettings: QuietSettings = {
+  enabled: false,
+  start: '22:00',
+  end: '07:00',
+  dndUntil: null,
+};
+
+const isClock = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{2}:\d{2}$/.test(value);
+
+export const readQuietSettings = (): QuietSettings => {
+  if (typeof window === 'undefined') {
+    return defaultQuietSettings;
+  }
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(QUIET_SETTINGS_KEY) ?? 'null');
+    if (!parsed || typeof parsed !== 'object') {
+      return defaultQuietSettings;
+    }
+    return {
+      enabled: parsed.enabled === true,
+      start: isClock(parsed.start) ? parsed.start : defaultQuietSettings.start,
+      end: isClock(parsed.end) ? parsed.end : defaultQuietSettings.end,
+      dndUntil: typeof parsed.dndUntil === 'number' ? parsed.dndUntil : null,
+    };
+  } catch {
+    return defaultQuietSettings;
+  }
+};
+
+export const persistQuietSettings = (settings: QuietSettings) => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(QUIET_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const minutesOf = (clock: string) => {
+  const [hours, minutes] = clock.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const atClock = (day: Date, clock: string) => {
+  const copy = new Date(day.getTime());
+  copy.setHours(0, minutesOf(clock), 0, 0);
+  return copy.getTime();
+};
+
+// When the current quiet-hours window ends, or null outside quiet hours. Windows that start in
+// the evening run past midnight into the next morning.
+const quietHoursEnd = (settings: QuietSettings, now: number) => {
+  if (!settings.enabled || settings.start === settings.end) {
+    return null;
+  }
+  const today = new Date(now);
+  const current = today.getHours() * 60 + today.getMinutes();
+  const start = minutesOf(settings.start);
+  const end = minutesOf(settings.end);
+  if (start < end) {
+    return current >= start && current < end ? atClock(today, settings.end) : null;
+  }
+  if (current >= start) {
+    const tomorrow = new Date(now);
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    return atClock(tomorrow, settings.end);
+  }
+  return current < end ? atClock(today, settings.end) : null;
+};
+
+export const quietUntil = (settings: QuietSettings, now: number) => {
+  const dnd = settings.dndUntil !== null && settings.dndUntil > now ? settings.dndUntil : null;
+  const hours = quietHoursEnd(settings, now);
+  if (dnd === null) return hours;
+  if (hours === null) return dnd;
+  return Math.max(dnd, hours);
+};
+
+export const isQuietAt = (settings: QuietSettings, now: number) => quietUntil(settings, now) !== null;
@@ -0,0 +1,291 @@
+import { createId, type Task } from './tasks';
+import {
+  deviceZone,
+  fromWallTime,
+  fromZonedInputValue,
+  shiftDays,
+  toZonedInputValue,
+  wallTime,
+  weekdayOf,
+} from './zones';
+
+export type RecurrenceFrequency = 'hourly' | 'daily' | 'weekly';
+
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays: number[];
+  startsAt: string;
+  until: string | null;
+  count: number | null;
+  // Null follows whatever zone the device is in.
+  timeZone: string | null;
+};
+
+export type TaskSeries = {
+  id: string;
+  title: string;
+  notes: string;
+  rule: RecurrenceRule;
+};
+
+export type RecurrencePreset = 'none' | 'daily' | 'weekdays' | 'hourly' | 'weekly';
+
+export type RecurrenceDraft = {
+  preset: RecurrencePreset;
+  interval: number;
+  weekdays: number[];
+  ends: 'never' | 'until' | 'count';
+  until: string;
+  count: number;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MINUTE_MS = 60 * 1000;
+const MAX_PERIODS = 5000;
+const WORKWEEK = [1, 2, 3, 4, 5];
+
+export const RECURRENCE_WINDOW_MS = 7 * DAY_MS;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const emptyRecurrenceDraft: RecurrenceDraft = {
+  preset: 'none',
+  interval: 1,
+  weekdays: [],
+  ends: 'never',
+  until: '',
+  count: 10,
+};
+
+const isWorkweek = (weekdays: number[]) =>
+  weekdays.length === WORKWEEK.length && WORKWEEK.every((day) => weekdays.includes(day));
+
+const periodLength = (rule: RecurrenceRule) => {
+  switch (rule.frequency) {
+    case 'hourly':
+      return rule.interval * HOUR_MS;
+    case 'daily':
+      return rule.interval * DAY_MS;
+    default:
+      return rule.interval * 7 * DAY_MS;
+  }
+};
+
+const slotsInPeriod = (rule: RecurrenceRule, start: Date, period: number) => {
+  if (rule.frequency === 'hourly') {
+    return [new Date(start.getTime() + period * rule.interval * HOUR_MS)];
+  }
+  const zone = rule.timeZone ?? deviceZone();
+  const wall = wallTime(start.getTime(), zone);
+  if (rule.frequency === 'daily') {
+    return [fromWallTime(shiftDays(wall, period * rule.interval), zone)];
+  }
+  const weekdays =
+    rule.weekdays.length > 0 ? [...rule.weekdays].sort((a, b) => a - b) : [weekdayOf(wall)];
+  const base = shiftDays(wall, period * rule.interval * 7 - weekdayOf(wall));
+  return weekdays
+    .map((weekday) => fromWallTime(shiftDays(base, weekday), zone))
+    .filter((slot) => slot.getTime() >= start.getTime());
+};
+
+export const nextOccurrence = (rule: RecurrenceRule, after: number): Date | null => {
+  const start = new Date(rule.startsAt);
+  if (Number.isNaN(start.getTime())) {
+    return null;
+  }
+  const until = rule.until ? new Date(rule.until).getTime() : Number.POSITIVE_INFINITY;
+  // Without a count limit we can jump close to `after`; one period of slack covers DST shifts.
+  const first =
+    rule.count === null
+      ? Math.max(0, Math.floor((after - start.getTime()) / periodLength(rule)) - 1)
+      : 0;
+  let seen = 0;
+  for (let period = first; period < first + MAX_PERIODS; period += 1) {
+    for (const slot of slotsInPeriod(rule, start, period)) {
+      seen += 1;
+      if (rule.count !== null && seen > rule.count) return null;
+      if (slot.getTime() > until) return null;
+      if (slot.getTime() > after) return slot;
+    }
+  }
+  return null;
+};
+
+export const describeRecurrence = (rule: RecurrenceRule) => {
+  let label: string;
+  switch (rule.frequency) {
+    case 'hourly':
+      label = rule.interval === 1 ? 'Hourly' : `Every ${rule.interval} hours`;
+      break;
+    case 'daily':
+      label = rule.interval === 1 ? 'Daily' : `Every ${rule.interval} days`;
+      break;
+    default:
+      if (rule.interval === 1 && isWorkweek(rule.weekdays)) {
+        label = 'Weekdays';
+      } else {
+        const days = (rule.weekdays.length > 0 ? rule.weekdays : [new Date(rule.startsAt).getDay()])
+          .slice()
+          .sort((a, b) => a - b)
+          .map((day) => WEEKDAY_LABELS[day])
+          .join(', ');
+        label = `${rule.interval === 1 ? 'Weekly' : `Every ${rule.interval} weeks`} on ${days}`;
+      }
+  }
+  if (rule.until) {
+    label += ` until ${new Date(rule.until).toLocaleDateString([], { month: 'short', day: 'numeric' })}`;
+  } else if (rule.count !== null) {
+    label += ` · ${rule.count} times`;
+  }
+  return label;
+};
+
+export const buildRecurrence = (
+  draft: RecurrenceDraft,
+  startsAt: Date,
+  timeZone: string | null = null,
+): RecurrenceRule | null => {
+  if (draft.preset === 'none') {
+    return null;
+  }
+  const interval = Math.max(1, Math.round(draft.interval) || 1);
+  // The last day ends at midnight on the series' own calendar, not the device's.
+  const lastMinute =
+    draft.ends === 'until' && draft.until
+      ? fromZonedInputValue(`${draft.until}T23:59`, timeZone ?? deviceZone())
+      : null;
+  const ends = {
+    until: lastMinute ? new Date(lastMinute.getTime() + MINUTE_MS - 1).toISOString() : null,
+    count: draft.ends === 'count' ? Math.max(1, Math.round(draft.count) || 1) : null,
+    timeZone,
+  };
+  switch (draft.preset) {
+    case 'weekdays':
+      return { frequency: 'weekly', interval: 1, weekdays: WORKWEEK, startsAt: startsAt.toISOString(), ...ends };
+    case 'weekly':
+      return {
+        frequency: 'weekly',
+        interval,
+        weekdays:
+          draft.weekdays.length > 0
+            ? draft.weekdays
+            : [weekdayOf(wallTime(startsAt.getTime(), timeZone ?? deviceZone()))],
+        startsAt: startsAt.toISOString(),
+        ...ends,
+      };
+    default:
+      return { frequency: draft.preset, interval, weekdays: [], startsAt: startsAt.toISOString(), ...ends };
+  }
+};
+
+export const toRecurrenceDraft = (rule: RecurrenceRule | null): RecurrenceDraft => {
+  if (!rule) {
+    return emptyRecurrenceDraft;
+  }
+  const preset: RecurrencePreset =
+    rule.frequency === 'weekly' && rule.interval === 1 && isWorkweek(rule.weekdays)
+      ? 'weekdays'
+      : rule.frequency;
+  return {
+    preset,
+    interval: rule.interval,
+    weekdays: rule.weekdays,
+    ends: rule.until ? 'until' : rule.count !== null ? 'count' : 'never',
+    until: rule.until
+      ? toZonedInputValue(new Date(rule.until), rule.timeZone ?? deviceZone()).slice(0, 10)
+      : '',
+    count: rule.count ?? emptyRecurrenceDraft.count,
+  };
+};
+
+export const isWithinRecurrenceWindow = (task: Task, now: number) =>
+  !task.series || new Date(task.scheduledFor).getTime() <= now + RECURRENCE_WINDOW_MS;
+
+const slotOf = (task: Task) => new Date(task.recurrenceId ?? task.scheduledFor).getTime();
+
+export const createNextOccurrence = (task: Task, tasks: Task[], now: number): Task | null => {
+  if (!task.series) {
+    return null;
+  }
+  const seriesId = task.series.id;
+  const current = slotOf(task);
+  const alreadySpawned = tasks.some(
+    (item) =>
+      item.id !== task.id &&
+      item.series?.id === seriesId &&
+      !item.completed &&
+      slotOf(item) > current,
+  );
+  if (alreadySpawned) {
+    return null;
+  }
+  // Missed slots while the planner was closed are skipped rather than back-filled.
+  const next = nextOccurrence(task.series.rule, Math.max(current, now));
+  if (!next) {
+    return null;
+  }
+  const slot = next.toISOString();
+  if (tasks.some((item) => item.series?.id === seriesId && item.recurrenceId === slot)) {
+    return null;
+  }
+  return {
+    ...task,
+    id: createId(),
+    title: task.series.title,
+    notes: task.series.notes,
+    scheduledFor: slot,
+    recurrenceId: slot,
+    // The slot was computed on the rule's clock, which may differ from the last occurrence's.
+    timeZone: task.series.rule.timeZone ?? deviceZone(),
+    completed: false,
+    completedAt: null,
+    notifiedAt: null,
+    remindersSent: {},
+    snoozeCount: 0,
+    focusMinutes: 0,
+    checklist: task.checklist.map((item) => ({ ...item, done: false })),
+    createdAt: new Date(now).toISOString(),
+  };
+};
+
+export const updateSeries = (tasks: Task[], series: TaskSeries, now: number): Task[] => {
+  const next = nextOccurrence(series.rule, now);
+  return tasks.flatMap((task) => {
+    if (task.series?.id !== series.id) {
+      return [task];
+    }
+    if (task.completed) {
+      return [{ ...task, series }];
+    }
+    const retimed = JSON.stringify(task.series.rule) !== JSON.stringify(series.rule);
+    if (!retimed || task.notifiedAt) {
+      return [{ ...task, series, title: series.title, notes: series.notes }];
+    }
+    if (!next) {
+      return [];
+    }
+    const slot = next.toISOString();
+    return [
+      {
+        ...task,
+        series,
+        title: series.title,
+        notes: series.notes,
+        scheduledFor: slot,
+        recurrenceId: slot,
+      },
+    ];
+  });
+};
+
+export const endSeries = (tasks: Task[], series: TaskSeries, now: number) =>
+  updateSeries(tasks, { ...series, rule: { ...series.rule, until: new Date(now).toISOString() } }, now);
+
+export const pinSeries = (tasks: Task[], timeZone: string | null) =>
+  tasks.map((task) =>
+    task.series && task.series.rule.timeZone !== timeZone
+      ? { ...task, series: { ...task.series, rule: { ...task.series.rule, timeZone } } }
+      : task,
+  );
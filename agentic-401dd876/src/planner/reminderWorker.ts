@@ -0,0 +1,129 @@
+import type { QuietSettings } from './quietHours';
+import { createNextOccurrence } from './recurrence';
+import type { Task } from './tasks';
+
+export type WorkerEvent = {
+  id: string;
+  kind: 'notified' | 'reminded' | 'completed' | 'snoozed';
+  taskId: string;
+  at: string;
+  scheduledFor?: string;
+  key?: string;
+};
+
+export type WorkerMessage =
+  | { type: 'events' }
+  | { type: 'sync'; events: WorkerEvent[] };
+
+type PeriodicSyncRegistration = ServiceWorkerRegistration & {
+  periodicSync?: {
+    register: (tag: string, options: { minInterval: number }) => Promise<void>;
+  };
+};
+
+const WORKER_URL = '/sw.js';
+const SYNC_TAG = 'planner-reminders';
+const SYNC_INTERVAL_MS = 15 * 60 * 1000;
+
+export const isReminderWorkerSupported = () =>
+  typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+
+export const registerReminderWorker = () => {
+  if (!isReminderWorkerSupported()) {
+    return Promise.resolve(null);
+  }
+  return navigator.serviceWorker
+    .register(WORKER_URL)
+    .then((registration) => {
+      (registration as PeriodicSyncRegistration).periodicSync
+        ?.register(SYNC_TAG, { minInterval: SYNC_INTERVAL_MS })
+        .catch(() => undefined);
+      return registration;
+    })
+    .catch(() => null);
+};
+
+const post = (message: Record<string, unknown>) => {
+  if (!isReminderWorkerSupported()) return;
+  navigator.serviceWorker.ready
+    .then((registration) => registration.active?.postMessage(message))
+    .catch(() => undefined);
+};
+
+// The worker rings by the same reminder and quiet-hour rules as the page, so it gets both.
+export const mirrorSchedule = (tasks: Task[], quiet: QuietSettings) =>
+  post({
+    type: 'schedule',
+    quiet,
+    tasks: tasks.map(
+      ({
+        id,
+        title,
+        notes,
+        scheduledFor,
+        completed,
+        notifiedAt,
+        reminderOffsets,
+        nagMinutes,
+        remindersSent,
+        breaksThroughDnd,
+      }) => ({
+        id,
+        title,
+        notes,
+        scheduledFor,
+        completed,
+        notifiedAt,
+        reminderOffsets,
+        nagMinutes,
+        remindersSent,
+        breaksThroughDnd,
+      }),
+    ),
+  });
+
+export const sendHeartbeat = () => post({ type: 'heartbeat' });
+
+export const requestWorkerEvents = () => post({ type: 'sync-request' });
+
+export const acknowledgeWorkerEvents = (ids: string[]) => post({ type: 'ack', ids });
+
+export const reconcileWorkerEvents = (tasks: Task[], events: WorkerEvent[], now: number) =>
+  events.reduce((current, event) => {
+    const target = current.find((task) => task.id === event.taskId);
+    if (!target) {
+      return current;
+    }
+    let updated: Task;
+    switch (event.kind) {
+      case 'notified':
+        updated = target.notifiedAt ? target : { ...target, notifiedAt: event.at };
+        break;
+      case 'reminded':
+        updated =
+          !event.key || target.remindersSent[event.key]
+            ? target
+            : { ...target, remindersSent: { ...target.remindersSent, [event.key]: event.at } };
+        break;
+      case 'completed':
+        updated = target.completed ? target : { ...target, completed: true, completedAt: event.at };
+        break;
+      default:
+        updated = event.scheduledFor
+          ? {
+              ...target,
+              scheduledFor: event.scheduledFor,
+              notifiedAt: null,
+              completed: false,
+              completedAt: null,
+              snoozeCount: target.snoozeCount + 1,
+            }
+          : target;
+    }
+    const next = current.map((task) => (task.id === updated.id ? updated : task));
+    const occurrence =
+      event.kind === 'notified' || event.kind === 'completed'
+        ? createNextOccurrence(updated, next, now)
+        : null;
+    return occurrence ? [...next, occurrence] : next;
+  }, tasks);
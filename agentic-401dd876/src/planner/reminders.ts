@@ -0,0 +1,123 @@
+import type { Task } from './tasks';
+
+export type DueReminder = {
+  key: string;
+  heading: string;
+  audible: boolean;
+};
+
+const MINUTE_MS = 60000;
+// Lead reminders that were missed by more than this (tab asleep, task just snoozed) are skipped.
+const LEAD_GRACE_MS = 2 * MINUTE_MS;
+
+export const REMINDER_OFFSETS = [30, 15, 10, 5, 0];
+export const NAG_INTERVALS = [5, 10, 15, 30];
+export const DEFAULT_REMINDER_OFFSETS = [0];
+
+// Sent reminders are keyed by the slot they belong to, so rescheduling a task re-arms them.
+const slotKey = (task: Task, name: string) => `${name}@${task.scheduledFor}`;
+
+export const describeOffset = (offset: number) =>
+  offset === 0 ? 'At start' : `${offset} min before`;
+
+export const dueReminders = (task: Task, now: number): DueReminder[] => {
+  if (task.completed) {
+    return [];
+  }
+  const start = new Date(task.scheduledFor).getTime();
+  if (now < start) {
+    return task.reminderOffsets
+      .filter((offset) => offset > 0)
+      .sort((a, b) => b - a)
+      .flatMap((offset) => {
+        const fireAt = start - offset * MINUTE_MS;
+        const key = slotKey(task, `before:${offset}`);
+        if (fireAt > now || now - fireAt > LEAD_GRACE_MS || task.remindersSent[key]) return [];
+        return [{ key, heading: `Starting in ${offset} min`, audible: true }];
+      });
+  }
+  if (!task.notifiedAt) {
+    // The start is always stamped, since repeats and the background worker depend on it; it only
+    // rings when "At start" is one of the task's reminders.
+    return [
+      { key: slotKey(task, 'start'), heading: 'It is time!', audible: task.reminderOffsets.includes(0) },
+    ];
+  }
+  if (!task.nagMinutes) {
+    return [];
+  }
+  const round = Math.floor(
+    (now - new Date(task.notifiedAt).getTime()) / (task.nagMinutes * MINUTE_MS),
+  );
+  const key = slotKey(task, `nag:${round}`);
+  if (round < 1 || task.remindersSent[key]) {
+    return [];
+  }
+  return [{ key, heading: `Still open · ${round * task.nagMinutes} min overdue`, audible: true }];
+};
+
+// When `dueReminders` will next return something, so callers can sleep until then instead of
+// polling. `now` means something is already due; null means nothing is left to ring.
+export const nextReminderAt = (task: Task, now: number): number | null => {
+  if (task.completed) {
+    return null;
+  }
+  if (dueReminders(task, now).length > 0) {
+    return now;
+  }
+  const start = new Date(task.scheduledFor).getTime();
+  if (now < start) {
+    const leads = task.reminderOffsets
+      .map((offset) => ({ offset, fireAt: start - offset * MINUTE_MS }))
+      .filter(
+        ({ offset, fireAt }) =>
+          offset > 0 && fireAt > now && !task.remindersSent[slotKey(task, `before:${offset}`)],
+      )
+      .map(({ fireAt }) => fireAt);
+    return Math.min(start, ...leads);
+  }
+  if (!task.notifiedAt || !task.nagMinutes) {
+    return null;
+  }
+  const notifiedAt = new Date(task.notifiedAt).getTime();
+  const interval = task.nagMinutes * MINUTE_MS;
+  return notifiedAt + (Math.floor((now - notifiedAt) / interval) + 1) * interval;
+};
+
+export const markReminders = (task: Task, due: DueReminder[], now: number): Task => {
+  const at = new Date(now).toISOString();
+  const suffix = `@${task.scheduledFor}`;
+  const remindersSent = Object.fromEntries(
+    Object.entries(task.remindersSent).filter(([key]) => key.endsWith(suffix)),
+  );
+  due.forEach((reminder) => {
+    if (reminder.audible) {
+      remindersSent[reminder.key] = at;
+    }
+  });
+  const startedNow = due.some((reminder) => reminder.key === slotKey(task, 'start'));
+  return { ...task, remindersSent, notifiedAt: startedNow ? at : task.notifiedAt };
+};
+
+// Labels for the reminders that went out for the task's current slot, in the order they fired.
+export const sentReminderLabels = (task: Task) => {
+  const suffix = `@${task.scheduledFor}`;
+  const entries = Object.entries(task.remindersSent)
+    .filter(([key]) => key.endsWith(suffix))
+    .sort(([, a], [, b]) => a.localeCompare(b))
+    .map(([key]) => key.slice(0, -suffix.length));
+  const labels = entries.flatMap((name) => {
+    if (name.startsWith('before:')) return [describeOffset(Number(name.slice(7)))];
+    if (name === 'start') return [describeOffset(0)];
+    return [];
+  });
+  // Alarms rung by the background worker only stamp `notifiedAt`.
+  if (task.notifiedAt && task.reminderOffsets.includes(0) && !entries.includes('start')) {
+    labels.push(describeOffset(0));
+  }
+  const nags = entries.filter((name) => name.startsWith('nag:')).length;
+  if (nags > 0) {
+    labels.push(`Nagged ×${nags}`);
+  }
+  return labels;
+};
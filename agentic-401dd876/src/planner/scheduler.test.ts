@@ -0,0 +1,263 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { RecurrenceRule } from './recurrence';
+import {
+  createScheduler,
+  nextWakeAt,
+  runDueReminders,
+  type Clock,
+  type Firing,
+} from './scheduler';
+import type { Task } from './tasks';
+
+const MINUTE_MS = 60000;
+const START = Date.parse('2026-03-02T09:00:00.000Z');
+
+type Timer = { at: number; callback: () => void };
+
+// Time only moves when a test says so. `sleep` moves the wall clock without running timers, as a
+// laptop lid does: timers are paused and come due that much later.
+const createFakeClock = (start: number) => {
+  let now = start;
+  let timers: Timer[] = [];
+  const clock: Clock = {
+    now: () => now,
+    setTimer: (callback, delayMs) => {
+      const timer = { at: now + delayMs, callback };
+      timers.push(timer);
+      return () => {
+        timers = timers.filter((item) => item !== timer);
+      };
+    },
+  };
+  const advance = (ms: number) => {
+    const until = now + ms;
+    for (;;) {
+      const due = timers.filter((timer) => timer.at <= until).sort((a, b) => a.at - b.at)[0];
+      if (!due) break;
+      timers = timers.filter((timer) => timer !== due);
+      now = due.at;
+      due.callback();
+    }
+    now = until;
+  };
+  const sleep = (ms: number) => {
+    now += ms;
+    timers = timers.map((timer) => ({ ...timer, at: timer.at + ms }));
+  };
+  return { clock, advance, sleep, pending: () => timers.length };
+};
+
+const makeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task',
+  title: 'Stand-up',
+  notes: '',
+  scheduledFor: new Date(START + 10 * MINUTE_MS).toISOString(),
+  completed: false,
+  notifiedAt: null,
+  createdAt: new Date(START).toISOString(),
+  series: null,
+  recurrenceId: null,
+  icalUid: null,
+  durationMinutes: null,
+  reminderOffsets: [0],
+  nagMinutes: null,
+  remindersSent: {},
+  soundId: null,
+  breaksThroughDnd: false,
+  completedAt: null,
+  snoozeCount: 0,
+  templateId: null,
+  tags: [],
+  priority: 'normal',
+  checklist: [],
+  autoComplete: false,
+  focusMinutes: 0,
+  timeZone: 'UTC',
+  ...overrides,
+});
+
+// Runs a scheduler on the fake clock and keeps the list it reports, the way the page does.
+const startScheduler = (tasks: Task[], start = START) => {
+  const fake = createFakeClock(start);
+  const firings: Firing[] = [];
+  const state = { tasks };
+  const scheduler = createScheduler({
+    clock: fake.clock,
+    sinks: [(firing) => firings.push(firing)],
+    onChange: (next) => {
+      state.tasks = next;
+    },
+  });
+  scheduler.update(tasks);
+  return { ...fake, firings, state, scheduler };
+};
+
+const headings = (firings: Firing[]) => firings.map((firing) => firing.reminder.heading);
+
+describe('runDueReminders', () => {
+  it('returns the same list when nothing is due', () => {
+    const tasks = [makeTask()];
+    const result = runDueReminders(tasks, START);
+    assert.equal(result.tasks, tasks);
+    assert.deepEqual(result.firings, []);
+  });
+
+  it('stamps the start even when "At start" is off, without ringing', () => {
+    const task = makeTask({ reminderOffsets: [5] });
+    const result = runDueReminders([task], START + 10 * MINUTE_MS);
+    assert.equal(result.tasks[0].notifiedAt, new Date(START + 10 * MINUTE_MS).toISOString());
+    assert.deepEqual(result.firings, []);
+  });
+});
+
+describe('nextWakeAt', () => {
+  it('is null when nothing is left to ring', () => {
+    assert.equal(nextWakeAt([], START), null);
+    assert.equal(nextWakeAt([makeTask({ completed: true })], START), null);
+  });
+
+  it('picks the earliest lead reminder across tasks', () => {
+    const tasks = [
+      makeTask({ id: 'a' }),
+      makeTask({
+        id: 'b',
+        scheduledFor: new Date(START + 20 * MINUTE_MS).toISOString(),
+        reminderOffsets: [15, 0],
+      }),
+    ];
+    assert.equal(nextWakeAt(tasks, START), START + 5 * MINUTE_MS);
+  });
+});
+
+describe('createScheduler', () => {
+  it('rings at the exact start time', () => {
+    const run = startScheduler([makeTask()]);
+    run.advance(10 * MINUTE_MS - 1);
+    assert.equal(run.firings.length, 0);
+    run.advance(1);
+    assert.deepEqual(headings(run.firings), ['It is time!']);
+    assert.equal(run.firings[0].at, START + 10 * MINUTE_MS);
+    assert.equal(run.state.tasks[0].notifiedAt, new Date(START + 10 * MINUTE_MS).toISOString());
+  });
+
+  it('rings lead reminders and nags on their own schedule', () => {
+    const run = startScheduler([makeTask({ reminderOffsets: [5, 0], nagMinutes: 10 })]);
+    run.advance(30 * MINUTE_MS);
+    assert.deepEqual(headings(run.firings), [
+      'Starting in 5 min',
+      'It is time!',
+      'Still open · 10 min overdue',
+      'Still open · 20 min overdue',
+    ]);
+    assert.deepEqual(
+      run.firings.map((firing) => (firing.at - START) / MINUTE_MS),
+      [5, 10, 20, 30],
+    );
+  });
+
+  it('rings again at the snoozed time', () => {
+    const run = startScheduler([makeTask({ reminderOffsets: [5, 0] })]);
+    run.advance(10 * MINUTE_MS);
+    const [rung] = run.state.tasks;
+    run.scheduler.update([
+      {
+        ...rung,
+        scheduledFor: new Date(run.clock.now() + 10 * MINUTE_MS).toISOString(),
+        notifiedAt: null,
+        snoozeCount: rung.snoozeCount + 1,
+      },
+    ]);
+    run.advance(10 * MINUTE_MS - 1);
+    assert.equal(run.firings.length, 3);
+    run.advance(1);
+    // Sent reminders belong to a slot, so the new slot gets its lead reminder too.
+    assert.deepEqual(headings(run.firings), [
+      'Starting in 5 min',
+      'It is time!',
+      'Starting in 5 min',
+      'It is time!',
+    ]);
+    assert.deepEqual(
+      run.firings.map((firing) => (firing.at - START) / MINUTE_MS),
+      [5, 10, 15, 20],
+    );
+  });
+
+  it('catches up after the machine was asleep through the start', () => {
+    const run = startScheduler([makeTask({ reminderOffsets: [5, 0] })]);
+    run.advance(MINUTE_MS);
+    run.sleep(60 * MINUTE_MS);
+    // The paused timer is never more than five minutes out, so the missed start rings soon after
+    // waking; the lead reminder is too stale to ring.
+    run.advance(5 * MINUTE_MS);
+    assert.deepEqual(headings(run.firings), ['It is time!']);
+    assert.ok(run.firings[0].at > START + 60 * MINUTE_MS);
+    assert.ok(run.firings[0].at <= START + 66 * MINUTE_MS);
+  });
+
+  it('keeps a repeating task on the wall clock of its zone across a DST change', () => {
+    // New York moves its clocks forward at 02:00 on 8 March 2026.
+    const first = Date.parse('2026-03-07T14:00:00.000Z');
+    const rule: RecurrenceRule = {
+      frequency: 'daily',
+      interval: 1,
+      weekdays: [],
+      startsAt: new Date(first).toISOString(),
+      until: null,
+      count: null,
+      timeZone: 'America/New_York',
+    };
+    const task = makeTask({
+      scheduledFor: new Date(first).toISOString(),
+      series: { id: 'series', title: 'Stand-up', notes: '', rule },
+      recurrenceId: new Date(first).toISOString(),
+      timeZone: 'America/New_York',
+    });
+    const run = startScheduler([task], first - MINUTE_MS);
+    run.advance(MINUTE_MS);
+    const spawned = run.state.tasks.find((item) => item.id !== task.id);
+    assert.equal(spawned?.scheduledFor, '2026-03-08T13:00:00.000Z');
+    run.scheduler.update(
+      run.state.tasks.map((item) => (item.id === task.id ? { ...item, completed: true } : item)),
+    );
+    run.advance(23 * 60 * MINUTE_MS);
+    assert.deepEqual(
+      run.firings.map((firing) => new Date(firing.at).toISOString()),
+      ['2026-03-07T14:00:00.000Z', '2026-03-08T13:00:00.000Z'],
+    );
+  });
+
+  it('stamps the next occurrence with the zone its rule was re-pinned to', () => {
+    const first = Date.parse('2026-03-07T14:00:00.000Z');
+    const rule: RecurrenceRule = {
+      frequency: 'daily',
+      interval: 1,
+      weekdays: [],
+      startsAt: new Date(first).toISOString(),
+      until: null,
+      count: null,
+      timeZone: 'Europe/London',
+    };
+    const task = makeTask({
+      scheduledFor: new Date(first).toISOString(),
+      series: { id: 'series', title: 'Stand-up', notes: '', rule },
+      recurrenceId: new Date(first).toISOString(),
+      timeZone: 'America/New_York',
+    });
+    const run = startScheduler([task], first - MINUTE_MS);
+    run.advance(MINUTE_MS);
+    const spawned = run.state.tasks.find((item) => item.id !== task.id);
+    assert.equal(spawned?.scheduledFor, '2026-03-08T14:00:00.000Z');
+    assert.equal(spawned?.timeZone, 'Europe/London');
+  });
+
+  it('sets no timer once stopped', () => {
+    const run = startScheduler([makeTask()]);
+    assert.equal(run.pending(), 1);
+    run.scheduler.stop();
+    assert.equal(run.pending(), 0);
+    run.advance(60 * MINUTE_MS);
+    assert.equal(run.firings.length, 0);
+  });
+});
@@ -0,0 +1,120 @@
+import { createNextOccurrence } from './recurrence';
+import { dueReminders, markReminders, nextReminderAt, type DueReminder } from './reminders';
+import type { Task } from './tasks';
+
+export type Clock = {
+  now: () => number;
+  // Returns a function that cancels the timer.
+  setTimer: (callback: () => void, delayMs: number) => () => void;
+};
+
+export type Firing = {
+  task: Task;
+  reminder: DueReminder;
+  at: number;
+};
+
+export type ReminderSink = (firing: Firing) => void;
+
+export type SchedulerRun = {
+  tasks: Task[];
+  firings: Firing[];
+};
+
+export type Scheduler = {
+  update: (tasks: Task[]) => void;
+  stop: () => void;
+};
+
+type SchedulerOptions = {
+  clock: Clock;
+  sinks: ReminderSink[];
+  onChange: (tasks: Task[]) => void;
+};
+
+// Timers are paused while a laptop sleeps and the wall clock can be changed under us, so a long
+// wait is split up and the schedule is looked at again at least this often.
+const MAX_SLEEP_MS = 5 * 60000;
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimer: (callback, delayMs) => {
+    const timer = setTimeout(callback, delayMs);
+    return () => clearTimeout(timer);
+  },
+};
+
+// Stamps every reminder that is due at `now` and spawns the next occurrence of any repeating task
+// that just started. Returns the same array when nothing was due. Each task rings at most once
+// per run, with its latest audible reminder.
+export const runDueReminders = (tasks: Task[], now: number): SchedulerRun => {
+  const firings: Firing[] = [];
+  let changed = false;
+  const next = tasks.map((task) => {
+    const due = dueReminders(task, now);
+    if (due.length === 0) {
+      return task;
+    }
+    changed = true;
+    const marked = markReminders(task, due, now);
+    const audible = due.filter((reminder) => reminder.audible);
+    if (audible.length > 0) {
+      firings.push({ task: marked, reminder: audible[audible.length - 1], at: now });
+    }
+    return marked;
+  });
+  if (!changed) {
+    return { tasks, firings };
+  }
+  const spawned = next.reduce<Task[]>((acc, task, index) => {
+    if (task.notifiedAt === tasks[index].notifiedAt) return acc;
+    const occurrence = createNextOccurrence(task, [...next, ...acc], now);
+    return occurrence ? [...acc, occurrence] : acc;
+  }, []);
+  return { tasks: [...next, ...spawned], firings };
+};
+
+export const nextWakeAt = (tasks: Task[], now: number) =>
+  tasks.reduce<number | null>((earliest, task) => {
+    const at = nextReminderAt(task, now);
+    return at === null || (earliest !== null && earliest <= at) ? earliest : at;
+  }, null);
+
+// Sleeps until the next reminder is due, hands what fired to the sinks and reports the stamped
+// list through `onChange`. The caller feeds every later change back in with `update`.
+export const createScheduler = ({ clock, sinks, onChange }: SchedulerOptions): Scheduler => {
+  let tasks: Task[] = [];
+  let cancel: (() => void) | null = null;
+
+  const stop = () => {
+    cancel?.();
+    cancel = null;
+  };
+
+  const arm = () => {
+    stop();
+    const now = clock.now();
+    const wakeAt = nextWakeAt(tasks, now);
+    if (wakeAt === null) return;
+    cancel = clock.setTimer(fire, Math.min(Math.max(0, wakeAt - now), MAX_SLEEP_MS));
+  };
+
+  const fire = () => {
+    cancel = null;
+    const result = runDueReminders(tasks, clock.now());
+    if (result.tasks !== tasks) {
+      tasks = result.tasks;
+      result.firings.forEach((firing) => sinks.forEach((sink) => sink(firing)));
+      onChange(tasks);
+    }
+    arm();
+  };
+
+  return {
+    update: (next) => {
+      tasks = next;
+      arm();
+    },
+    stop,
+  };
+};
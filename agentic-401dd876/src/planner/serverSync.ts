@@ -0,0 +1,254 @@
+import type { Task } from './tasks';
+
+export type PendingChange = { kind: 'create' | 'update'; task: Task } | { kind: 'delete' };
+
+export type Outbox = Record<string, PendingChange>;
+
+export type SyncState = 'local' | 'syncing' | 'synced' | 'offline';
+
+export type FlushResult = {
+  done: string[];
+  rejected: string[];
+  reachable: boolean;
+};
+
+const API_BASE = '/api/tasks';
+export const OUTBOX_KEY = 'agentic-401dd876::outbox';
+
+export const readOutbox = (): Outbox => {
+  if (typeof window === 'undefined') {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(OUTBOX_KEY) ?? '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as Outbox) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const persistOutbox = (outbox: Outbox) => {
+  if (typeof window === 'undefined') return;
+  if (Object.keys(outbox).length === 0) {
+    window.localStorage.removeItem(OUTBOX_KEY);
+    return;
+  }
+  window.localStorage.setItem(OUTBOX_KEY, JSON.stringify(outbox));
+};
+
+// Folds the difference between two snapshots into the outbox, so a task that is created and then
+// edited before the server is reached is still sent as a single create.
+export const enqueueChanges = (outbox: Outbox, previous: Task[], next: Task[]): Outbox => {
+  const result = { ...outbox };
+  const before = new Map(previous.map((task) => [task.id, task]));
+  const after = new Set(next.map((task) => task.id));
+  next.forEach((task) => {
+    const old = before.get(task.id);
+    if (old && JSON.stringify(old) === JSON.stringify(task)) return;
+    const pending = result[task.id];
+    result[task.id] = {
+      kind: !old || pending?.kind === 'create' ? 'create' : 'update',
+      task,
+    };
+  });
+  before.forEach((_, taskId) => {
+    if (after.has(taskId)) return;
+    if (result[taskId]?.kind === 'create') {
+      delete result[taskId];
+    } else {
+      result[taskId] = { kind: 'delete' };
+    }
+  });
+  return result;
+};
+
+export const pruneOutbox = (current: Outbox, snapshot: Outbox, done: string[]): Outbox => {
+  const result = { ...current };
+  done.forEach((taskId) => {
+    if (JSON.stringify(result[taskId]) === JSON.stringify(snapshot[taskId])) {
+      delete result[taskId];
+    }
+  });
+  return result;
+};
+
+const send = (url: string, method: string, body?: unknown) =>
+  fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+export const fetchServerTasks = async (): Promise<Task[]> => {
+  const response = await send(API_BASE, 'GET');
+  if (!response.ok) {
+    throw new Error(`Task list request failed with ${response.status}`);
+  }
+  const body = (await response.json()) as { tasks: Task[] };
+  return body.tasks;
+};
+
+const taskUrl = (taskId: string) => `${API_BASE}/${encodeURIComponent(taskId)}`;
+
+const createTask = async (task: Task) => {
+  const response = await send(API_BASE, 'POST', { task });
+  // Another tab sent this create first, so ours goes through as an edit.
+  return response.status === 409 ? send(taskUrl(task.id), 'PATCH', { task }) : response;
+};
+
+// Sends every change in the snapshot. A network failure or 5xx stops the flush and leaves the
+// rest queued; a 4xx means the server disagrees with our copy of that one task, so the change is
+// dropped and its id reported in `rejected` for the caller to reconcile.
+export const flushOutbox = async (snapshot: Outbox): Promise<FlushResult> => {
+  const done: string[] = [];
+  const rejected: string[] = [];
+  const settle = (response: Response, ids: string[]) => {
+    if (response.status >= 500) {
+      throw new Error(`Sync request failed with ${response.status}`);
+    }
+    if (!response.ok) {
+      rejected.push(...ids);
+    }
+    done.push(...ids);
+  };
+  try {
+    const entries = Object.entries(snapshot);
+    const creates = entries.flatMap(([, change]) => (change.kind === 'create' ? [change.task] : []));
+    const bulk =
+      creates.length > 1 ? await send(`${API_BASE}/bulk`, 'POST', { tasks: creates }) : null;
+    if (bulk && (bulk.ok || bulk.status >= 500)) {
+      settle(bulk, creates.map((task) => task.id));
+    } else {
+      // One bad task fails a whole batch, so the batch is retried task by task to find it.
+      for (const task of creates) {
+        settle(await createTask(task), [task.id]);
+      }
+    }
+    for (const [taskId, change] of entries) {
+      const url = taskUrl(taskId);
+      if (change.kind === 'update') {
+        const response = await send(url, 'PATCH', { task: change.task });
+        // The server lost this task (for example a wiped data dir), so put our copy back.
+        settle(
+          response.status === 404 ? await send(API_BASE, 'POST', { task: change.task }) : response,
+          [taskId],
+        );
+      } else if (change.kind === 'delete') {
+        const response = await send(url, 'DELETE');
+        if (response.status === 404) {
+          done.push(taskId);
+          continue;
+        }
+        settle(response, [taskId]);
+      }
+    }
+    return { done, rejected, reachable: true };
+  } catch {
+    return { done, rejected, reachable: false };
+  }
+};
+
+// Takes the server's copy of each rejected task. Tasks the server has never accepted stay as they
+// are on this device rather than being dropped.
+export const reconcileRejected = (tasks: Task[], serverTasks: Task[], rejected: string[]) => {
+  const server = new Map(serverTasks.map((task) => [task.id, task]));
+  const restored = rejected.flatMap((taskId) => {
+    const copy = server.get(taskId);
+    return copy ? [copy] : [];
+  });
+  return [
+    ...tasks.map((task) => restored.find((copy) => copy.id === task.id) ?? task),
+    ...restored.filter((copy) => !tasks.some((task) => task.id === copy.id)),
+  ];
+};
+
+type ServerSyncOptions = {
+  onReplace: (tasks: Task[]) => void;
+  onStateChange: (state: SyncState) => void;
+};
+
+// Keeps the server in step with the page's task list. Local changes are applied optimistically
+// and queued in a persisted outbox; while the server is unreachable the page keeps working from
+// local storage and the outbox is replayed on the next successful contact. Every tab queues its
+// own edits, so the outbox is always re-read from storage before it is changed.
+export const createServerSync = ({ onReplace, onStateChange }: ServerSyncOptions) => {
+  let baseline: Task[] | null = null;
+  let flushing = false;
+  let stopped = false;
+
+  const hasPending = () => Object.keys(readOutbox()).length > 0;
+
+  const reconcile = (rejected: string[]) =>
+    fetchServerTasks()
+      .then((serverTasks) => {
+        if (stopped || !baseline) return;
+        baseline = reconcileRejected(baseline, serverTasks, rejected);
+        onReplace(baseline);
+      })
+      .catch(() => undefined);
+
+  const flush = (): Promise<void> => {
+    const snapshot = readOutbox();
+    if (flushing || Object.keys(snapshot).length === 0) {
+      return Promise.resolve();
+    }
+    flushing = true;
+    onStateChange('syncing');
+    return flushOutbox(snapshot).then(async (result) => {
+      flushing = false;
+      persistOutbox(pruneOutbox(readOutbox(), snapshot, result.done));
+      if (stopped) return;
+      if (!result.reachable) {
+        onStateChange('offline');
+        return;
+      }
+      if (result.rejected.length > 0) await reconcile(result.rejected);
+      if (hasPending()) return flush();
+      onStateChange('synced');
+    });
+  };
+
+  const pull = (): Promise<void> => {
+    if (hasPending()) {
+      return Promise.resolve();
+    }
+    return fetchServerTasks()
+      .then((serverTasks) => {
+        if (stopped || hasPending()) return;
+        if (serverTasks.length === 0 && baseline && baseline.length > 0) {
+          // First contact with an empty server: upload what this device already has.
+          persistOutbox(enqueueChanges(readOutbox(), [], baseline));
+          return flush();
+        }
+        baseline = serverTasks;
+        onReplace(serverTasks);
+        onStateChange('synced');
+      })
+      .catch(() => {
+        if (!stopped) onStateChange('offline');
+      });
+  };
+
+  return {
+    refresh: () => flush().then(pull),
+    // For lists another tab has already sent to the server.
+    adopt: (tasks: Task[]) => {
+      baseline = tasks;
+    },
+    track: (tasks: Task[]) => {
+      if (baseline === null) {
+        baseline = tasks;
+        return;
+      }
+      if (baseline === tasks) return;
+      persistOutbox(enqueueChanges(readOutbox(), baseline, tasks));
+      baseline = tasks;
+      flush();
+    },
+    stop: () => {
+      stopped = true;
+    },
+  };
+};
+
+export type ServerSync = ReturnType<typeof createServerSync>;
@@ -0,0 +1,210 @@
+export type SoundSettings = {
+  soundId: string;
+  volume: number;
+  escalate: boolean;
+};
+
+export type CustomSound = {
+  id: string;
+  name: string;
+  dataUrl: string;
+};
+
+type Tone = {
+  type: OscillatorType;
+  frequency: number;
+  endFrequency?: number;
+  at: number;
+  duration: number;
+  level?: number;
+};
+
+export const SOUND_SETTINGS_KEY = 'agentic-401dd876::sound-settings';
+export const CUSTOM_SOUNDS_KEY = 'agentic-401dd876::sounds';
+// Uploads live in localStorage next to the tasks, so keep them short.
+export const MAX_CUSTOM_SOUND_BYTES = 750 * 1024;
+export const ESCALATION_INTERVAL_MS = 10000;
+// Alerts older than this stop escalating and wait quietly in the missed-alerts inbox.
+export const ESCALATION_LIMIT_MS = 30 * 60000;
+// The original single sweep peaked at 0.12, which is what the default volume still gives.
+const SYNTH_GAIN = 0.24;
+
+export const defaultSoundSettings: SoundSettings = {
+  soundId: 'sweep',
+  volume: 0.5,
+  escalate: false,
+};
+
+const presetTones: Record<string, { name: string; tones: Tone[] }> = {
+  sweep: {
+    name: 'Sweep',
+    tones: [{ type: 'sine', frequency: 880, endFrequency: 440, at: 0, duration: 1.2 }],
+  },
+  chime: {
+    name: 'Chime',
+    tones: [
+      { type: 'triangle', frequency: 1046.5, at: 0, duration: 0.6 },
+      { type: 'triangle', frequency: 1318.5, at: 0.25, duration: 0.6 },
+      { type: 'triangle', frequency: 1568, at: 0.5, duration: 1 },
+    ],
+  },
+  beeps: {
+    name: 'Triple beep',
+    tones: [0, 0.25, 0.5].map((at) => ({
+      type: 'square' as const,
+      frequency: 1000,
+      at,
+      duration: 0.15,
+      level: 0.5,
+    })),
+  },
+  bell: {
+    name: 'Bell',
+    tones: [
+      { type: 'sine', frequency: 660, at: 0, duration: 2 },
+      { type: 'sine', frequency: 1320, at: 0, duration: 1.2, level: 0.4 },
+    ],
+  },
+  siren: {
+    name: 'Siren',
+    tones: [
+      { type: 'sawtooth', frequency: 600, endFrequency: 1200, at: 0, duration: 0.6, level: 0.5 },
+      { type: 'sawtooth', frequency: 1200, endFrequency: 600, at: 0.6, duration: 0.6, level: 0.5 },
+    ],
+  },
+};
+
+export const soundPresets = Object.entries(presetTones).map(([id, preset]) => ({
+  id,
+  name: preset.name,
+}));
+
+const clampVolume = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : null;
+
+export const readSoundSettings = (): SoundSettings => {
+  if (typeof window === 'undefined') {
+    return defaultSoundSettings;
+  }
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(SOUND_SETTINGS_KEY) ?? 'null');
+    if (!parsed || typeof parsed !== 'object') {
+      return defaultSoundSettings;
+    }
+    return {
+      soundId: typeof parsed.soundId === 'string' ? parsed.soundId : defaultSoundSettings.soundId,
+      volume: clampVolume(parsed.volume) ?? defaultSoundSettings.volume,
+      escalate: parsed.escalate === true,
+    };
+  } catch {
+    return defaultSoundSettings;
+  }
+};
+
+export const persistSoundSettings = (settings: SoundSettings) => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(SOUND_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const readCustomSounds = (): CustomSound[] => {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(CUSTOM_SOUNDS_KEY) ?? '[]');
+    return Array.isArray(parsed)
+      ? parsed.filter(
+          (item): item is CustomSound =>
+            !!item &&
+            typeof item.id === 'string' &&
+            typeof item.name === 'string' &&
+            typeof item.dataUrl === 'string',
+        )
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+// Returns false when the browser refuses to store the sounds (usually the storage quota).
+export const persistCustomSounds = (sounds: CustomSound[]) => {
+  if (typeof window === 'undefined') return true;
+  try {
+    window.localStorage.setItem(CUSTOM_SOUNDS_KEY, JSON.stringify(sounds));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Falls back from a task's own choice to the default, and from there to the built-in sweep, so
+// removing an uploaded sound never leaves an alarm silent.
+export const resolveSoundId = (
+  soundId: string | null,
+  settings: SoundSettings,
+  customSounds: CustomSound[],
+) => {
+  const exists = (id: string) => id in presetTones || customSounds.some((sound) => sound.id === id);
+  if (soundId && exists(soundId)) return soundId;
+  return exists(settings.soundId) ? settings.soundId : defaultSoundSettings.soundId;
+};
+
+const playTone = (ctx: AudioContext, tone: Tone, peak: number) => {
+  const start = ctx.currentTime + tone.at;
+  const end = start + tone.duration;
+  const oscillator = ctx.createOscillator();
+  const gain = ctx.createGain();
+  oscillator.type = tone.type;
+  oscillator.frequency.setValueAtTime(tone.frequency, start);
+  if (tone.endFrequency) {
+    oscillator.frequency.exponentialRampToValueAtTime(tone.endFrequency, start + tone.duration * 0.45);
+  }
+  gain.gain.setValueAtTime(0.0001, start);
+  gain.gain.exponentialRampToValueAtTime(Math.max(0.0001, peak * (tone.level ?? 1)), start + 0.05);
+  gain.gain.exponentialRampToValueAtTime(0.0001, end);
+  oscillator.connect(gain);
+  gain.connect(ctx.destination);
+  oscillator.start(start);
+  oscillator.stop(end + 0.1);
+};
+
+const decoded = new Map<string, Promise<AudioBuffer>>();
+
+const decodeSound = (ctx: AudioContext, sound: CustomSound) => {
+  const cached = decoded.get(sound.id);
+  if (cached) return cached;
+  const buffer = fetch(sound.dataUrl)
+    .then((response) => response.arrayBuffer())
+    .then((data) => ctx.decodeAudioData(data));
+  decoded.set(sound.id, buffer);
+  buffer.catch(() => decoded.delete(sound.id));
+  return buffer;
+};
+
+export const playSound = (
+  ctx: AudioContext,
+  soundId: string,
+  volume: number,
+  customSounds: CustomSound[],
+): Promise<void> => {
+  const preset = presetTones[soundId];
+  if (preset) {
+    preset.tones.forEach((tone) => playTone(ctx, tone, volume * SYNTH_GAIN));
+    return Promise.resolve();
+  }
+  const sound = customSounds.find((item) => item.id === soundId);
+  if (!sound) {
+    return playSound(ctx, defaultSoundSettings.soundId, volume, customSounds);
+  }
+  return decodeSound(ctx, sound)
+    .then((buffer) => {
+      const source = ctx.createBufferSource();
+      const gain = ctx.createGain();
+      gain.gain.value = volume;
+      source.buffer = buffer;
+      source.connect(gain);
+      gain.connect(ctx.destination);
+      source.start();
+    })
+    .catch(() => playSound(ctx, defaultSoundSettings.soundId, volume, customSounds));
+};
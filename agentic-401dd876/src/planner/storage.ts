@@ -0,0 +1,356 @@
+import { extractTags } from './tags';
+import { createId, PRIORITIES, type Task } from './tasks';
+import { sanitizeTemplates, type Template } from './templates';
+import { deviceZone, isValidZone } from './zones';
+
+type StoredRecord = Record<string, unknown>;
+
+export type TaskEnvelope = {
+  version: number;
+  savedAt: string;
+  tasks: Task[];
+};
+
+export type QuarantineEntry = {
+  id: string;
+  record: unknown;
+  reason: string;
+  quarantinedAt: string;
+};
+
+export type PlannerBackup = {
+  app: typeof BACKUP_APP;
+  version: number;
+  exportedAt: string;
+  tasks: Task[];
+  templates: Template[];
+};
+
+export type RestoreMode = 'merge' | 'replace';
+
+export type RestorePlan = {
+  exportedAt: string | null;
+  version: number;
+  tasks: Task[];
+  templates: Template[];
+  quarantined: QuarantineEntry[];
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+};
+
+export const STORAGE_KEY = 'agentic-401dd876::tasks';
+export const QUARANTINE_KEY = 'agentic-401dd876::quarantine';
+const BACKUP_APP = 'agentic-401dd876';
+
+// Each entry upgrades a record by one version; the array index is the version it upgrades from.
+const migrations: ((record: StoredRecord) => StoredRecord)[] = [
+  (record) => ({
+    ...record,
+    notes: record.notes ?? '',
+    notifiedAt: record.notifiedAt ?? null,
+  }),
+  (record) => ({
+    ...record,
+    series: record.series ?? null,
+    recurrenceId: record.recurrenceId ?? null,
+    icalUid: record.icalUid ?? null,
+  }),
+  (record) => ({
+    ...record,
+    durationMinutes: record.durationMinutes ?? null,
+  }),
+  (record) => ({
+    ...record,
+    reminderOffsets: record.reminderOffsets ?? [0],
+    nagMinutes: record.nagMinutes ?? null,
+    remindersSent: record.remindersSent ?? {},
+  }),
+  (record) => ({
+    ...record,
+    soundId: record.soundId ?? null,
+  }),
+  (record) => ({
+    ...record,
+    breaksThroughDnd: record.breaksThroughDnd ?? false,
+  }),
+  (record) => ({
+    ...record,
+    completedAt: record.completedAt ?? null,
+    snoozeCount: record.snoozeCount ?? 0,
+    templateId: record.templateId ?? null,
+  }),
+  // Quick add used to keep tags as #words in the notes.
+  (record) => ({
+    ...record,
+    tags: record.tags ?? extractTags(isString(record.notes) ? record.notes : ''),
+    priority: record.priority ?? 'normal',
+  }),
+  (record) => ({
+    ...record,
+    checklist: record.checklist ?? [],
+    autoComplete: record.autoComplete ?? false,
+  }),
+  (record) => ({
+    ...record,
+    focusMinutes: record.focusMinutes ?? 0,
+  }),
+  // Older times were all typed on this device, and repeats followed its clock.
+  (record) => ({
+    ...record,
+    timeZone: record.timeZone ?? deviceZone(),
+    series: isRecord(record.series)
+      ? {
+          ...record.series,
+          rule: isRecord(record.series.rule)
+            ? { ...record.series.rule, timeZone: record.series.rule.timeZone ?? null }
+            : record.series.rule,
+        }
+      : record.series,
+  }),
+];
+
+export const SCHEMA_VERSION = migrations.length;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isNullableString = (value: unknown) => value === null || isString(value);
+
+const isDateString = (value: unknown) => isString(value) && !Number.isNaN(new Date(value).getTime());
+
+const isRecord = (value: unknown): value is StoredRecord =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const validateSeries = (value: unknown) => {
+  if (value === null) return true;
+  if (!isRecord(value) || !isString(value.id) || !isString(value.title) || !isString(value.notes)) {
+    return false;
+  }
+  const rule = value.rule;
+  return (
+    isRecord(rule) &&
+    (rule.frequency === 'hourly' || rule.frequency === 'daily' || rule.frequency === 'weekly') &&
+    typeof rule.interval === 'number' &&
+    Array.isArray(rule.weekdays) &&
+    isDateString(rule.startsAt) &&
+    (rule.until === null || isDateString(rule.until)) &&
+    (rule.count === null || typeof rule.count === 'number') &&
+    (rule.timeZone === null || isValidZone(rule.timeZone))
+  );
+};
+
+const validateTask = (record: StoredRecord): string | null => {
+  if (!isString(record.id) || !record.id) return 'missing id';
+  if (!isString(record.title) || !record.title.trim()) return 'missing title';
+  if (!isString(record.notes)) return 'invalid notes';
+  if (!isDateString(record.scheduledFor)) return 'invalid scheduledFor';
+  if (typeof record.completed !== 'boolean') return 'invalid completed flag';
+  if (!isNullableString(record.notifiedAt)) return 'invalid notifiedAt';
+  if (!isString(record.createdAt)) return 'invalid createdAt';
+  if (!validateSeries(record.series)) return 'invalid series';
+  if (!isNullableString(record.recurrenceId)) return 'invalid recurrenceId';
+  if (!isNullableString(record.icalUid)) return 'invalid icalUid';
+  if (
+    record.durationMinutes !== null &&
+    (typeof record.durationMinutes !== 'number' || record.durationMinutes <= 0)
+  ) {
+    return 'invalid durationMinutes';
+  }
+  if (
+    !Array.isArray(record.reminderOffsets) ||
+    !record.reminderOffsets.every((offset) => typeof offset === 'number' && offset >= 0)
+  ) {
+    return 'invalid reminderOffsets';
+  }
+  if (
+    record.nagMinutes !== null &&
+    (typeof record.nagMinutes !== 'number' || record.nagMinutes <= 0)
+  ) {
+    return 'invalid nagMinutes';
+  }
+  if (!isRecord(record.remindersSent) || !Object.values(record.remindersSent).every(isString)) {
+    return 'invalid remindersSent';
+  }
+  if (!isNullableString(record.soundId)) return 'invalid soundId';
+  if (typeof record.breaksThroughDnd !== 'boolean') return 'invalid breaksThroughDnd';
+  if (record.completedAt !== null && !isDateString(record.completedAt)) return 'invalid completedAt';
+  if (typeof record.snoozeCount !== 'number' || record.snoozeCount < 0) return 'invalid snoozeCount';
+  if (!isNullableString(record.templateId)) return 'invalid templateId';
+  if (!Array.isArray(record.tags) || !record.tags.every(isString)) return 'invalid tags';
+  if (!PRIORITIES.includes(record.priority as Task['priority'])) return 'invalid priority';
+  if (
+    !Array.isArray(record.checklist) ||
+    !record.checklist.every(
+      (item) => isRecord(item) && isString(item.id) && isString(item.text) && typeof item.done === 'boolean',
+    )
+  ) {
+    return 'invalid checklist';
+  }
+  if (typeof record.autoComplete !== 'boolean') return 'invalid autoComplete';
+  if (typeof record.focusMinutes !== 'number' || record.focusMinutes < 0) return 'invalid focusMinutes';
+  if (!isValidZone(record.timeZone)) return 'invalid timeZone';
+  return null;
+};
+
+const quarantine = (record: unknown, reason: string): QuarantineEntry => ({
+  id: createId(),
+  record,
+  reason,
+  quarantinedAt: new Date().toISOString(),
+});
+
+export const migrateTasks = (records: unknown[], fromVersion: number) => {
+  const tasks: Task[] = [];
+  const rejected: QuarantineEntry[] = [];
+  const pending = migrations.slice(Math.max(0, Math.min(fromVersion, SCHEMA_VERSION)));
+  records.forEach((record) => {
+    if (!isRecord(record)) {
+      rejected.push(quarantine(record, 'not an object'));
+      return;
+    }
+    const migrated = pending.reduce((current, migrate) => migrate(current), record);
+    const reason = validateTask(migrated);
+    if (reason) {
+      rejected.push(quarantine(record, reason));
+      return;
+    }
+    tasks.push(migrated as Task);
+  });
+  return { tasks, rejected };
+};
+
+export const unwrapEnvelope = (parsed: unknown) => {
+  if (Array.isArray(parsed)) {
+    return { version: 0, records: parsed as unknown[] };
+  }
+  if (isRecord(parsed) && typeof parsed.version === 'number' && Array.isArray(parsed.tasks)) {
+    return { version: parsed.version, records: parsed.tasks as unknown[] };
+  }
+  return null;
+};
+
+export const readQuarantine = (): QuarantineEntry[] => {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(QUARANTINE_KEY) ?? '[]');
+    return Array.isArray(parsed) ? (parsed as QuarantineEntry[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const appendQuarantine = (entries: QuarantineEntry[]) => {
+  if (typeof window === 'undefined' || entries.length === 0) return;
+  const existing = readQuarantine();
+  const seen = new Set(existing.map((entry) => JSON.stringify(entry.record)));
+  const fresh = entries.filter((entry) => !seen.has(JSON.stringify(entry.record)));
+  if (fresh.length === 0) return;
+  window.localStorage.setItem(QUARANTINE_KEY, JSON.stringify([...existing, ...fresh]));
+};
+
+export const clearQuarantine = () => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.removeItem(QUARANTINE_KEY);
+};
+
+export const readTasks = (): Task[] => {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+  const raw = window.localStorage.getItem(STORAGE_KEY);
+  if (!raw) {
+    return [];
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    appendQuarantine([quarantine(raw, 'unreadable JSON')]);
+    return [];
+  }
+  const envelope = unwrapEnvelope(parsed);
+  if (!envelope) {
+    appendQuarantine([quarantine(parsed, 'unknown storage format')]);
+    return [];
+  }
+  const { tasks, rejected } = migrateTasks(envelope.records, envelope.version);
+  appendQuarantine(rejected);
+  return tasks;
+};
+
+export const persistTasks = (tasks: Task[]) => {
+  if (typeof window === 'undefined') return;
+  const envelope: TaskEnvelope = {
+    version: SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    tasks,
+  };
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(envelope));
+};
+
+export const createBackup = (tasks: Task[], templates: Template[]): PlannerBackup => ({
+  app: BACKUP_APP,
+  version: SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  tasks,
+  templates,
+});
+
+export const planRestore = (text: string, existing: Task[]): RestorePlan | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  const envelope = unwrapEnvelope(parsed);
+  if (!envelope) {
+    return null;
+  }
+  const { tasks, rejected } = migrateTasks(envelope.records, envelope.version);
+  const current = new Map(existing.map((task) => [task.id, JSON.stringify(task)]));
+  const incoming = new Set(tasks.map((task) => task.id));
+  const changed = tasks.filter((task) => current.has(task.id) && current.get(task.id) !== JSON.stringify(task));
+  const known = tasks.filter((task) => current.has(task.id)).length;
+  return {
+    exportedAt: isRecord(parsed) && isString(parsed.exportedAt) ? parsed.exportedAt : null,
+    version: envelope.version,
+    tasks,
+    templates: isRecord(parsed) ? sanitizeTemplates(parsed.templates) : [],
+    quarantined: rejected,
+    added: tasks.length - known,
+    updated: changed.length,
+    unchanged: known - changed.length,
+    removed: existing.filter((task) => !incoming.has(task.id)).length,
+  };
+};
+
+export const applyRestore = (
+  existing: Task[],
+  existingTemplates: Template[],
+  plan: RestorePlan,
+  mode: RestoreMode,
+) => {
+  appendQuarantine(plan.quarantined);
+  if (mode === 'replace') {
+    return { tasks: plan.tasks, templates: plan.templates };
+  }
+  const restored = new Map(plan.tasks.map((task) => [task.id, task]));
+  return {
+    tasks: [
+      ...existing.map((task) => restored.get(task.id) ?? task),
+      ...plan.tasks.filter((task) => !existing.some((item) => item.id === task.id)),
+    ],
+    templates: [
+      ...existingTemplates.map(
+        (template) => plan.templates.find((item) => item.id === template.id) ?? template,
+      ),
+      ...plan.templates.filter(
+        (template) => !existingTemplates.some((item) => item.id === template.id),
+      ),
+    ],
+  };
+};
@@ -0,0 +1,118 @@
+import { readTasks, STORAGE_KEY } from './storage';
+import { createId, type Task } from './tasks';
+
+export type TabMessage = { type: 'tasks'; tasks: Task[] };
+
+export type TabChannel = {
+  post: (tasks: Task[]) => void;
+  close: () => void;
+};
+
+const CHANNEL_NAME = 'agentic-401dd876::tabs';
+const LEADER_LOCK = 'agentic-401dd876::alarm-leader';
+export const LEADER_KEY = 'agentic-401dd876::alarm-leader';
+// Hidden tabs may only get one timer tick per minute, so the lease has to outlive that.
+const LEASE_MS = 90000;
+const LEASE_RENEW_MS = 20000;
+
+type Lease = { tabId: string; expiresAt: number };
+
+// Announces task lists to the other open tabs. Where BroadcastChannel is missing, the storage
+// event fired by `persistTasks` carries the change instead, so `post` has nothing to do.
+export const createTabChannel = (onTasks: (tasks: Task[]) => void): TabChannel => {
+  if (typeof window === 'undefined') {
+    return { post: () => undefined, close: () => undefined };
+  }
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<TabMessage>) => {
+      if (event.data?.type === 'tasks') {
+        onTasks(event.data.tasks);
+      }
+    };
+    return {
+      post: (tasks) => channel.postMessage({ type: 'tasks', tasks } satisfies TabMessage),
+      close: () => channel.close(),
+    };
+  }
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) {
+      onTasks(readTasks());
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return {
+    post: () => undefined,
+    close: () => window.removeEventListener('storage', handleStorage),
+  };
+};
+
+const readLease = (): Lease | null => {
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(LEADER_KEY) ?? 'null') as Lease | null;
+    return parsed && typeof parsed.tabId === 'string' && typeof parsed.expiresAt === 'number'
+      ? parsed
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// Fallback for browsers without Web Locks: a lease in localStorage that the leader keeps renewing
+// and any other tab may take over once it has expired.
+const electWithLease = (onChange: (leading: boolean) => void) => {
+  const tabId = createId();
+  let leading = false;
+  const renew = () => {
+    const lease = readLease();
+    const now = Date.now();
+    const available = !lease || lease.tabId === tabId || lease.expiresAt <= now;
+    if (available) {
+      window.localStorage.setItem(LEADER_KEY, JSON.stringify({ tabId, expiresAt: now + LEASE_MS }));
+    }
+    if (available !== leading) {
+      leading = available;
+      onChange(leading);
+    }
+  };
+  renew();
+  const timer = window.setInterval(renew, LEASE_RENEW_MS);
+  const handleUnload = () => {
+    if (leading) window.localStorage.removeItem(LEADER_KEY);
+  };
+  window.addEventListener('pagehide', handleUnload);
+  return () => {
+    window.clearInterval(timer);
+    window.removeEventListener('pagehide', handleUnload);
+    handleUnload();
+  };
+};
+
+// Makes exactly one open tab responsible for ringing alarms and stamping `notifiedAt`. The Web
+// Lock is held until the tab goes away, at which point the browser hands it to the next tab in
+// line. Returns a function that gives up the role (or the place in the queue).
+export const electAlarmLeader = (onChange: (leading: boolean) => void) => {
+  if (typeof window === 'undefined') {
+    return () => undefined;
+  }
+  if (typeof navigator === 'undefined' || !('locks' in navigator)) {
+    return electWithLease(onChange);
+  }
+  const controller = new AbortController();
+  let release: (() => void) | null = null;
+  navigator.locks
+    .request(LEADER_LOCK, { signal: controller.signal }, () => {
+      onChange(true);
+      return new Promise<void>((resolve) => {
+        release = resolve;
+      });
+    })
+    .catch(() => undefined);
+  return () => {
+    controller.abort();
+    if (release) {
+      release();
+      onChange(false);
+    }
+  };
+};
@@ -0,0 +1,60 @@
+export type TagColor = 'emerald' | 'sky' | 'amber' | 'rose' | 'violet' | 'slate';
+
+export const TAG_COLORS_KEY = 'agentic-401dd876::tag-colors';
+export const TAG_COLORS: TagColor[] = ['emerald', 'sky', 'amber', 'rose', 'violet', 'slate'];
+
+// Full class names so Tailwind keeps them in the build.
+export const tagColorClasses: Record<TagColor, string> = {
+  emerald: 'border-emerald-300/30 bg-emerald-300/10 text-emerald-100',
+  sky: 'border-sky-300/30 bg-sky-300/10 text-sky-100',
+  amber: 'border-amber-300/30 bg-amber-300/10 text-amber-100',
+  rose: 'border-rose-300/30 bg-rose-300/10 text-rose-100',
+  violet: 'border-violet-300/30 bg-violet-300/10 text-violet-100',
+  slate: 'border-slate-300/30 bg-slate-300/10 text-slate-100',
+};
+
+const TAG_PATTERN = /#([\w-]+)/g;
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#/, '').toLowerCase();
+
+// Accepts "work, deep-focus" as well as "#work #deep-focus".
+export const parseTags = (text: string) =>
+  text
+    .split(/[\s,]+/)
+    .map(normalizeTag)
+    .filter((tag, index, tags) => /^[\w-]+$/.test(tag) && tags.indexOf(tag) === index);
+
+export const extractTags = (text: string) =>
+  parseTags(Array.from(text.matchAll(TAG_PATTERN), (match) => match[1]).join(' '));
+
+export const readTagColors = (): Record<string, TagColor> => {
+  if (typeof window === 'undefined') {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(TAG_COLORS_KEY) ?? '{}');
+    if (!parsed || typeof parsed !== 'object') {
+      return {};
+    }
+    return Object.fromEntries(
+      Object.entries(parsed).filter(([, color]) => TAG_COLORS.includes(color as TagColor)),
+    ) as Record<string, TagColor>;
+  } catch {
+    return {};
+  }
+};
+
+export const persistTagColors = (colors: Record<string, TagColor>) => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(TAG_COLORS_KEY, JSON.stringify(colors));
+};
+
+// Tags without a chosen color get a stable one derived from their name.
+export const tagColor = (tag: string, colors: Record<string, TagColor>): TagColor => {
+  if (colors[tag]) return colors[tag];
+  const hash = Array.from(tag).reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) >>> 0, 7);
+  return TAG_COLORS[hash % TAG_COLORS.length];
+};
+
+export const nextTagColor = (color: TagColor) =>
+  TAG_COLORS[(TAG_COLORS.indexOf(color) + 1) % TAG_COLORS.length];
@@ -0,0 +1,138 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  migrateTasks,
+  SCHEMA_VERSION,
+  unwrapEnvelope,
+  type QuarantineEntry,
+  type TaskEnvelope,
+} from './storage';
+import type { Task } from './tasks';
+
+export type StoreResult<T> = { ok: true; value: T } | { ok: false; status: number; error: string };
+
+export const dataDir = () => process.env.PLANNER_DATA_DIR ?? path.join(process.cwd(), 'data');
+const dataFile = () => path.join(dataDir(), 'tasks.json');
+const quarantineFile = () => path.join(dataDir(), 'quarantine.json');
+
+let queue: Promise<unknown> = Promise.resolve();
+
+// Every read-modify-write goes through one chain so concurrent requests cannot interleave.
+const serialize = <T>(work: () => Promise<T>) => {
+  const result = queue.then(work, work);
+  queue = result.catch(() => undefined);
+  return result;
+};
+
+const writeJson = async (file: string, value: unknown) => {
+  await mkdir(dataDir(), { recursive: true });
+  const temp = `${file}.${process.pid}.tmp`;
+  await writeFile(temp, JSON.stringify(value, null, 2), 'utf8');
+  await rename(temp, file);
+};
+
+// Records that fail validation are kept next to the task file, as the page keeps its own, since
+// the next save no longer includes them.
+const appendQuarantine = async (entries: QuarantineEntry[]) => {
+  if (entries.length === 0) return;
+  let existing: QuarantineEntry[] = [];
+  try {
+    const parsed = JSON.parse(await readFile(quarantineFile(), 'utf8'));
+    existing = Array.isArray(parsed) ? parsed : [];
+  } catch {
+    existing = [];
+  }
+  const seen = new Set(existing.map((entry) => JSON.stringify(entry.record)));
+  const fresh = entries.filter((entry) => !seen.has(JSON.stringify(entry.record)));
+  if (fresh.length === 0) return;
+  await writeJson(quarantineFile(), [...existing, ...fresh]);
+};
+
+// An unreadable file is reported rather than treated as empty, so no save can overwrite it before
+// someone has had a chance to repair it.
+const load = async (): Promise<StoreResult<Task[]>> => {
+  let raw: string;
+  try {
+    raw = await readFile(dataFile(), 'utf8');
+  } catch {
+    return { ok: true, value: [] };
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { ok: false, status: 500, error: `${path.basename(dataFile())} is not valid JSON` };
+  }
+  const envelope = unwrapEnvelope(parsed);
+  if (!envelope) {
+    return { ok: false, status: 500, error: `${path.basename(dataFile())} is not a task list` };
+  }
+  const { tasks, rejected } = migrateTasks(envelope.records, envelope.version);
+  await appendQuarantine(rejected);
+  return { ok: true, value: tasks };
+};
+
+const save = (tasks: Task[]) => {
+  const envelope: TaskEnvelope = { version: SCHEMA_VERSION, savedAt: new Date().toISOString(), tasks };
+  return writeJson(dataFile(), envelope);
+};
+
+export const validateIncoming = (records: unknown[]): StoreResult<Task[]> => {
+  const { tasks, rejected } = migrateTasks(records, SCHEMA_VERSION);
+  if (rejected.length > 0) {
+    return { ok: false, status: 400, error: `Invalid task: ${rejected[0].reason}` };
+  }
+  return { ok: true, value: tasks };
+};
+
+export const listTasks = () => serialize(load);
+
+export const createTasks = (incoming: Task[]) =>
+  serialize(async (): Promise<StoreResult<Task[]>> => {
+    const loaded = await load();
+    if (!loaded.ok) {
+      return loaded;
+    }
+    const tasks = loaded.value;
+    const ids = new Set(tasks.map((task) => task.id));
+    const duplicate = incoming.find((task) => ids.has(task.id));
+    if (duplicate) {
+      return { ok: false, status: 409, error: `Task ${duplicate.id} already exists` };
+    }
+    await save([...tasks, ...incoming]);
+    return { ok: true, value: incoming };
+  });
+
+export const updateTask = (taskId: string, changes: Partial<Task>) =>
+  serialize(async (): Promise<StoreResult<Task>> => {
+    const loaded = await load();
+    if (!loaded.ok) {
+      return loaded;
+    }
+    const tasks = loaded.value;
+    const existing = tasks.find((task) => task.id === taskId);
+    if (!existing) {
+      return { ok: false, status: 404, error: `Task ${taskId} not found` };
+    }
+    const validated = validateIncoming([{ ...existing, ...changes, id: taskId }]);
+    if (!validated.ok) {
+      return validated;
+    }
+    const [updated] = validated.value;
+    await save(tasks.map((task) => (task.id === taskId ? updated : task)));
+    return { ok: true, value: updated };
+  });
+
+export const deleteTask = (taskId: string) =>
+  serialize(async (): Promise<StoreResult<string>> => {
+    const loaded = await load();
+    if (!loaded.ok) {
+      return loaded;
+    }
+    const tasks = loaded.value;
+    if (!tasks.some((task) => task.id === taskId)) {
+      return { ok: false, status: 404, error: `Task ${taskId} not found` };
+    }
+    await save(tasks.filter((task) => task.id !== taskId));
+    return { ok: true, value: taskId };
+  });
@@ -0,0 +1,44 @@
+import type { TaskSeries } from './recurrence';
+
+export type Priority = 'low' | 'normal' | 'high';
+
+export const PRIORITIES: Priority[] = ['high', 'normal', 'low'];
+
+export type ChecklistItem = {
+  id: string;
+  text: string;
+  done: boolean;
+};
+
+export type Task = {
+  id: string;
+  title: string;
+  notes: string;
+  scheduledFor: string;
+  completed: boolean;
+  notifiedAt: string | null;
+  createdAt: string;
+  series: TaskSeries | null;
+  recurrenceId: string | null;
+  icalUid: string | null;
+  durationMinutes: number | null;
+  reminderOffsets: number[];
+  nagMinutes: number | null;
+  remindersSent: Record<string, string>;
+  soundId: string | null;
+  breaksThroughDnd: boolean;
+  completedAt: string | null;
+  snoozeCount: number;
+  templateId: string | null;
+  tags: string[];
+  priority: Priority;
+  checklist: ChecklistItem[];
+  autoComplete: boolean;
+  focusMinutes: number;
+  timeZone: string;
+};
+
+export const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
@@ -0,0 +1,174 @@
+import { createId, type Task } from './tasks';
+
+export type TemplateTask = {
+  title: string;
+  notes: string;
+  hour: number;
+  minute: number;
+  durationMinutes?: number;
+  checklist?: string[];
+};
+
+export type Template = {
+  id: string;
+  name: string;
+  description: string;
+  tasks: TemplateTask[];
+};
+
+export const TEMPLATES_STORAGE_KEY = 'agentic-401dd876::templates';
+
+export const builtInTemplates: Template[] = [
+  {
+    id: 'builtin::balanced-morning',
+    name: 'Balanced Morning',
+    description: 'A gentle start with movement, planning, and breakfast.',
+    tasks: [
+      {
+        title: 'Wake up & stretch',
+        notes: 'Light mobility routine to wake up your body.',
+        hour: 7,
+        minute: 0,
+      },
+      {
+        title: 'Plan the day',
+        notes: 'Review goals and top 3 priorities.',
+        hour: 7,
+        minute: 20,
+      },
+      {
+        title: 'Healthy breakfast',
+        notes: 'Keep it simple: oats or eggs + fruit.',
+        hour: 7,
+        minute: 45,
+      },
+    ],
+  },
+  {
+    id: 'builtin::productivity-sprint',
+    name: 'Productivity Sprint',
+    description: 'Deep work blocks with reminders to move and hydrate.',
+    tasks: [
+      {
+        title: 'Deep work block #1',
+        notes: 'Focus on your most important task.',
+        hour: 9,
+        minute: 0,
+        durationMinutes: 90,
+      },
+      {
+        title: 'Hydration check-in',
+        notes: 'Drink a full glass of water.',
+        hour: 10,
+        minute: 30,
+        durationMinutes: 5,
+      },
+      {
+        title: 'Reset walk',
+        notes: 'Step outside for a 10 minute reset.',
+        hour: 12,
+        minute: 0,
+        durationMinutes: 10,
+      },
+    ],
+  },
+  {
+    id: 'builtin::evening-wind-down',
+    name: 'Evening Wind Down',
+    description: 'Prepare tomorrow and unplug with intention.',
+    tasks: [
+      {
+        title: 'Tomorrow prep',
+        notes: 'Lay out clothes & top priorities.',
+        hour: 20,
+        minute: 0,
+        checklist: ['Lay out clothes', 'Write down top 3 priorities', 'Pack bag'],
+      },
+      {
+        title: 'Digital sunset',
+        notes: 'Screens off and switch to warm lights.',
+        hour: 21,
+        minute: 0,
+      },
+      {
+        title: 'Gratitude journal',
+        notes: 'Capture three things that went well.',
+        hour: 21,
+        minute: 30,
+      },
+    ],
+  },
+];
+
+export const sanitizeTemplates = (value: unknown): Template[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return (value as Template[])
+    .filter((template) => !!template && !!template.id && !!template.name && Array.isArray(template.tasks))
+    .map((template) => ({
+      ...template,
+      description: template.description ?? '',
+      // Backups are hand-editable, so a task entry may be anything.
+      tasks: template.tasks
+        .filter((item) => !!item && typeof item === 'object' && typeof item.title === 'string')
+        .map((item) => ({
+          ...item,
+          notes: item.notes ?? '',
+          checklist: Array.isArray(item.checklist)
+            ? item.checklist.filter((text) => typeof text === 'string')
+            : undefined,
+        })),
+    }));
+};
+
+export const readCustomTemplates = (): Template[] => {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+  const raw = window.localStorage.getItem(TEMPLATES_STORAGE_KEY);
+  if (!raw) {
+    return [];
+  }
+  try {
+    return sanitizeTemplates(JSON.parse(raw));
+  } catch {
+    return [];
+  }
+};
+
+export const persistCustomTemplates = (templates: Template[]) => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+};
+
+export const templateFromTasks = (name: string, description: string, tasks: Task[]): Template => ({
+  id: createId(),
+  name,
+  description,
+  tasks: [...tasks]
+    .sort((a, b) => new Date(a.scheduledFor).getTime() - new Date(b.scheduledFor).getTime())
+    .map((task) => {
+      const scheduled = new Date(task.scheduledFor);
+      return {
+        title: task.title,
+        notes: task.notes,
+        hour: scheduled.getHours(),
+        minute: scheduled.getMinutes(),
+        ...(task.durationMinutes ? { durationMinutes: task.durationMinutes } : {}),
+        ...(task.checklist.length > 0 ? { checklist: task.checklist.map((item) => item.text) } : {}),
+      };
+    }),
+});
+
+export const moveTemplate = (templates: Template[], templateId: string, offset: number) => {
+  const index = templates.findIndex((template) => template.id === templateId);
+  const target = index + offset;
+  if (index < 0 || target < 0 || target >= templates.length) {
+    return templates;
+  }
+  const next = [...templates];
+  const [moved] = next.splice(index, 1);
+  next.splice(target, 0, moved);
+  return next;
+};
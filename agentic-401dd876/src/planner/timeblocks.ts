@@ -0,0 +1,70 @@
+import type { Task } from './tasks';
+
+export type TimeBlock = {
+  id: string | null;
+  start: number;
+  end: number;
+};
+
+const MINUTE_MS = 60000;
+
+export const DURATION_PRESETS = [5, 15, 25, 30, 45, 60, 90, 120];
+
+export const toBlock = (task: Task): TimeBlock => {
+  const start = new Date(task.scheduledFor).getTime();
+  return { id: task.id, start, end: start + (task.durationMinutes ?? 0) * MINUTE_MS };
+};
+
+export const taskEndsAt = (task: Task) => new Date(toBlock(task).end).toISOString();
+
+const overlaps = (a: TimeBlock, b: TimeBlock) => a.start < b.end && b.start < a.end;
+
+export const findOverlaps = (block: TimeBlock, tasks: Task[]) =>
+  tasks.filter((task) => !task.completed && task.id !== block.id && overlaps(block, toBlock(task)));
+
+export const findConflicts = (tasks: Task[]) => {
+  const pending = tasks.filter((task) => !task.completed);
+  const conflicts = new Map<string, Task[]>();
+  pending.forEach((task) => {
+    const hits = findOverlaps(toBlock(task), pending);
+    if (hits.length > 0) {
+      conflicts.set(task.id, hits);
+    }
+  });
+  return conflicts;
+};
+
+const sameDay = (a: number, b: number) => new Date(a).toDateString() === new Date(b).toDateString();
+
+// Pushes the tasks after `taskId` on the same day just far enough that the first one starts when
+// this block ends, keeping the gaps between the later tasks as they were.
+export const shiftFollowingTasks = (tasks: Task[], taskId: string, now: number) => {
+  const anchor = tasks.find((task) => task.id === taskId);
+  if (!anchor) {
+    return tasks;
+  }
+  const block = toBlock(anchor);
+  const following = tasks.filter((task) => {
+    if (task.completed || task.id === anchor.id) return false;
+    const start = new Date(task.scheduledFor).getTime();
+    return start >= block.start && sameDay(start, block.start);
+  });
+  if (following.length === 0) {
+    return tasks;
+  }
+  const firstStart = Math.min(...following.map((task) => new Date(task.scheduledFor).getTime()));
+  const delta = block.end - firstStart;
+  if (delta <= 0) {
+    return tasks;
+  }
+  const ids = new Set(following.map((task) => task.id));
+  return tasks.map((task) => {
+    if (!ids.has(task.id)) return task;
+    const shifted = new Date(task.scheduledFor).getTime() + delta;
+    return {
+      ...task,
+      scheduledFor: new Date(shifted).toISOString(),
+      notifiedAt: shifted > now ? null : task.notifiedAt,
+    };
+  });
+};
@@ -0,0 +1,162 @@
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { deliverWebhook, dispatchNotices } from './webhookDispatcher';
+import { sampleNotice, type WebhookTarget } from './webhooks';
+
+type Received = { headers: IncomingHttpHeaders; body: string };
+
+const notice = sampleNotice(Date.parse('2026-03-02T09:00:00.000Z'));
+
+const makeTarget = (overrides: Partial<WebhookTarget> = {}): WebhookTarget => ({
+  id: 'target',
+  name: 'Stand-in',
+  url: 'http://127.0.0.1:1/hook',
+  secret: 'shh-its-a-secret',
+  events: ['due', 'completed', 'snoozed', 'overdue'],
+  enabled: true,
+  ...overrides,
+});
+
+// Waits are recorded instead of slept, so retries run instantly.
+const recordSleeps = () => {
+  const delays: number[] = [];
+  return { delays, sleep: async (ms: number) => void delays.push(ms) };
+};
+
+describe('deliverWebhook against a local HTTP stand-in', () => {
+  let server: Server;
+  let url = '';
+  let statuses: number[] = [];
+  let received: Received[] = [];
+
+  before(async () => {
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => {
+        body += chunk;
+      });
+      request.on('end', () => {
+        received.push({ headers: request.headers, body });
+        response.statusCode = statuses.shift() ?? 200;
+        response.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    statuses = [];
+    received = [];
+  });
+
+  it('posts a body the receiver can verify with the shared secret', async () => {
+    const target = makeTarget({ url });
+    const delivery = await deliverWebhook(target, notice);
+    assert.equal(delivery.ok, true);
+    assert.equal(delivery.status, 200);
+    assert.equal(delivery.attempts, 1);
+    assert.equal(received.length, 1);
+    const [{ headers, body }] = received;
+    const expected = `sha256=${createHmac('sha256', target.secret).update(body).digest('hex')}`;
+    assert.equal(headers['x-planner-signature'], expected);
+    assert.equal(headers['x-planner-event'], 'due');
+    assert.equal(headers['content-type'], 'application/json');
+    const payload = JSON.parse(body);
+    assert.equal(payload.id, headers['x-planner-delivery']);
+    assert.equal(payload.id, delivery.id);
+    assert.deepEqual(payload.task, notice.task);
+  });
+
+  it('retries a server error with the same delivery id', async () => {
+    statuses = [500];
+    const { delays, sleep } = recordSleeps();
+    const delivery = await deliverWebhook(makeTarget({ url }), notice, { sleep });
+    assert.equal(delivery.ok, true);
+    assert.equal(delivery.attempts, 2);
+    assert.deepEqual(delays, [1000]);
+    assert.equal(received.length, 2);
+    assert.equal(received[0].headers['x-planner-delivery'], received[1].headers['x-planner-delivery']);
+    assert.equal(received[0].body, received[1].body);
+  });
+
+  it('gives up after three attempts and logs the last status', async () => {
+    statuses = [503, 502, 500];
+    const { delays, sleep } = recordSleeps();
+    const delivery = await deliverWebhook(makeTarget({ url }), notice, { sleep });
+    assert.equal(delivery.ok, false);
+    assert.equal(delivery.attempts, 3);
+    assert.equal(delivery.status, 500);
+    assert.equal(delivery.error, 'HTTP 500');
+    assert.deepEqual(delays, [1000, 4000]);
+  });
+
+  it('does not retry a client error', async () => {
+    statuses = [400];
+    const { delays, sleep } = recordSleeps();
+    const delivery = await deliverWebhook(makeTarget({ url }), notice, { sleep });
+    assert.equal(delivery.ok, false);
+    assert.equal(delivery.attempts, 1);
+    assert.equal(delivery.error, 'HTTP 400');
+    assert.deepEqual(delays, []);
+  });
+});
+
+describe('deliverWebhook with an injected transport', () => {
+  it('retries rate limits', async () => {
+    const statuses = [429, 200];
+    const { delays, sleep } = recordSleeps();
+    const send = (async () => new Response(null, { status: statuses.shift() })) as typeof fetch;
+    const delivery = await deliverWebhook(makeTarget(), notice, { send, sleep });
+    assert.equal(delivery.ok, true);
+    assert.equal(delivery.attempts, 2);
+    assert.deepEqual(delays, [1000]);
+  });
+
+  it('retries network failures and reports the error', async () => {
+    const { delays, sleep } = recordSleeps();
+    const send = (async () => {
+      throw new Error('connect ECONNREFUSED');
+    }) as typeof fetch;
+    const delivery = await deliverWebhook(makeTarget(), notice, { send, sleep });
+    assert.equal(delivery.ok, false);
+    assert.equal(delivery.attempts, 3);
+    assert.equal(delivery.status, null);
+    assert.equal(delivery.error, 'connect ECONNREFUSED');
+    assert.deepEqual(delays, [1000, 4000]);
+  });
+});
+
+describe('dispatchNotices', () => {
+  it('sends each notice only to targets subscribed to its event', async () => {
+    const urls: string[] = [];
+    const send = (async (input: string | URL | Request) => {
+      urls.push(String(input));
+      return new Response(null, { status: 204 });
+    }) as typeof fetch;
+    const deliveries = await dispatchNotices(
+      [
+        makeTarget({ id: 'all', url: 'http://127.0.0.1:1/all' }),
+        makeTarget({ id: 'done', url: 'http://127.0.0.1:1/done', events: ['completed'] }),
+      ],
+      [notice, { ...notice, event: 'completed' }],
+      { send },
+    );
+    assert.deepEqual(
+      deliveries.map((delivery) => `${delivery.event}→${delivery.targetId}`),
+      ['due→all', 'completed→all', 'completed→done'],
+    );
+    assert.deepEqual(urls.sort(), [
+      'http://127.0.0.1:1/all',
+      'http://127.0.0.1:1/all',
+      'http://127.0.0.1:1/done',
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+import { createHmac } from 'node:crypto';
+import { createId } from './tasks';
+import type { TaskNotice, WebhookDelivery, WebhookPayload, WebhookTarget } from './webhooks';
+
+type DeliverOptions = {
+  send?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+};
+
+// Waits before the second and third attempts; anything still failing after that is logged.
+const RETRY_DELAYS_MS = [1000, 4000];
+const TIMEOUT_MS = 5000;
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Rate limits and server errors are worth another try; other 4xx answers will not change.
+const isRetryable = (status: number) => status === 429 || status >= 500;
+
+// Receivers recompute this over the raw request body with their copy of the secret.
+export const signPayload = (secret: string, body: string) =>
+  `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+
+export const deliverWebhook = async (
+  target: WebhookTarget,
+  notice: TaskNotice,
+  { send = fetch, sleep = wait }: DeliverOptions = {},
+): Promise<WebhookDelivery> => {
+  const id = createId();
+  const body = JSON.stringify({ id, ...notice } satisfies WebhookPayload);
+  const headers = {
+    'Content-Type': 'application/json',
+    'X-Planner-Event': notice.event,
+    'X-Planner-Delivery': id,
+    'X-Planner-Signature': signPayload(target.secret, body),
+  };
+  let attempts = 0;
+  let status: number | null = null;
+  let error: string | null = null;
+  for (;;) {
+    attempts += 1;
+    try {
+      const response = await send(target.url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+      });
+      status = response.status;
+      error = response.ok ? null : `HTTP ${response.status}`;
+      if (response.ok || !isRetryable(response.status)) break;
+    } catch (cause) {
+      status = null;
+      error = cause instanceof Error ? cause.message : 'Request failed';
+    }
+    if (attempts > RETRY_DELAYS_MS.length) break;
+    await sleep(RETRY_DELAYS_MS[attempts - 1]);
+  }
+  return {
+    id,
+    targetId: target.id,
+    targetName: target.name,
+    event: notice.event,
+    taskId: notice.task.id,
+    taskTitle: notice.task.title,
+    attempts,
+    ok: error === null,
+    status,
+    error,
+    at: new Date().toISOString(),
+  };
+};
+
+// Each notice goes to every target given to it that subscribes to its event.
+export const dispatchNotices = (
+  targets: WebhookTarget[],
+  notices: TaskNotice[],
+  options?: DeliverOptions,
+) =>
+  Promise.all(
+    notices.flatMap((notice) =>
+      targets
+        .filter((target) => target.events.includes(notice.event))
+        .map((target) => deliverWebhook(target, notice, options)),
+    ),
+  );
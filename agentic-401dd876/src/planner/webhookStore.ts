@@ -0,0 +1,102 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { dataDir, type StoreResult } from './taskFileStore';
+import {
+  isMaskedSecret,
+  sanitizeTargets,
+  type WebhookDelivery,
+  type WebhookState,
+  type WebhookTarget,
+} from './webhooks';
+
+const DELIVERY_LIMIT = 100;
+
+const dataFile = () => path.join(dataDir(), 'webhooks.json');
+
+let queue: Promise<unknown> = Promise.resolve();
+
+const serialize = <T>(work: () => Promise<T>) => {
+  const result = queue.then(work, work);
+  queue = result.catch(() => undefined);
+  return result;
+};
+
+// As with tasks, an unreadable file is reported and left alone instead of being saved over.
+const load = async (): Promise<StoreResult<WebhookState>> => {
+  let raw: string;
+  try {
+    raw = await readFile(dataFile(), 'utf8');
+  } catch {
+    return { ok: true, value: { targets: [], deliveries: [] } };
+  }
+  let parsed: Partial<WebhookState>;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { ok: false, status: 500, error: `${path.basename(dataFile())} is not valid JSON` };
+  }
+  return {
+    ok: true,
+    value: {
+      targets: sanitizeTargets(parsed?.targets) ?? [],
+      deliveries: Array.isArray(parsed?.deliveries) ? parsed.deliveries : [],
+    },
+  };
+};
+
+const save = async (state: WebhookState) => {
+  await mkdir(dataDir(), { recursive: true });
+  const temp = `${dataFile()}.${process.pid}.tmp`;
+  await writeFile(temp, JSON.stringify(state, null, 2), 'utf8');
+  await rename(temp, dataFile());
+};
+
+export const readWebhooks = () => serialize(load);
+
+// The page only ever sees masked secrets, so a masked one sent back means "keep the saved secret".
+export const replaceTargets = (incoming: unknown) =>
+  serialize(async (): Promise<StoreResult<WebhookState>> => {
+    const targets = sanitizeTargets(incoming);
+    if (!targets) {
+      return { ok: false, status: 400, error: 'Every webhook needs a name, an http(s) URL and a secret' };
+    }
+    const loaded = await load();
+    if (!loaded.ok) {
+      return loaded;
+    }
+    const saved = new Map(loaded.value.targets.map((target) => [target.id, target.secret]));
+    const resolved = targets.map((target) =>
+      isMaskedSecret(target.secret) ? { ...target, secret: saved.get(target.id) ?? '' } : target,
+    );
+    if (resolved.some((target) => !target.secret)) {
+      return { ok: false, status: 400, error: 'Enter a new secret for each new webhook' };
+    }
+    const state = { ...loaded.value, targets: resolved };
+    await save(state);
+    return { ok: true, value: state };
+  });
+
+// Newest first, trimmed so the file doesn't grow without bound.
+export const recordDeliveries = (deliveries: WebhookDelivery[]) =>
+  serialize(async () => {
+    if (deliveries.length === 0) return;
+    const loaded = await load();
+    if (!loaded.ok) return;
+    await save({
+      ...loaded.value,
+      deliveries: [...[...deliveries].reverse(), ...loaded.value.deliveries].slice(0, DELIVERY_LIMIT),
+    });
+  });
+
+export const findTargets = async (targetId?: string): Promise<StoreResult<WebhookTarget[]>> => {
+  const loaded = await readWebhooks();
+  if (!loaded.ok) {
+    return loaded;
+  }
+  return {
+    ok: true,
+    value: loaded.value.targets.filter((target) =>
+      targetId ? target.id === targetId : target.enabled,
+    ),
+  };
+};
@@ -0,0 +1,266 @@
+import { createId, type Task } from './tasks';
+import { toBlock } from './timeblocks';
+
+export type WebhookEvent = 'due' | 'completed' | 'snoozed' | 'overdue';
+
+export type WebhookTarget = {
+  id: string;
+  name: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+};
+
+export type WebhookTask = Pick<
+  Task,
+  | 'id'
+  | 'title'
+  | 'notes'
+  | 'scheduledFor'
+  | 'durationMinutes'
+  | 'completed'
+  | 'completedAt'
+  | 'snoozeCount'
+  | 'tags'
+  | 'priority'
+  | 'timeZone'
+>;
+
+export type TaskNotice = {
+  event: WebhookEvent;
+  occurredAt: string;
+  task: WebhookTask;
+};
+
+// What a target receives; `id` matches the X-Planner-Delivery header and stays the same across
+// retries, so receivers can drop duplicates.
+export type WebhookPayload = TaskNotice & { id: string };
+
+export type WebhookDelivery = {
+  id: string;
+  targetId: string;
+  targetName: string;
+  event: WebhookEvent;
+  taskId: string;
+  taskTitle: string;
+  attempts: number;
+  ok: boolean;
+  status: number | null;
+  error: string | null;
+  at: string;
+};
+
+export type WebhookState = {
+  targets: WebhookTarget[];
+  deliveries: WebhookDelivery[];
+};
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['due', 'completed', 'snoozed', 'overdue'];
+export const OVERDUE_SENT_KEY = 'agentic-401dd876::webhook-overdue';
+// Bumped after a save so other tabs, including the one that sends events, reload the targets.
+export const WEBHOOKS_CHANGED_KEY = 'agentic-401dd876::webhooks-changed';
+
+const API_BASE = '/api/webhooks';
+// Secrets never leave the server once saved; the page gets this prefix and the last few characters.
+const MASK = '••••';
+const OVERDUE_GRACE_MS = 15 * 60000;
+// Tasks that went overdue longer ago than this, while no tab was open, are not announced late.
+const OVERDUE_WINDOW_MS = 60 * 60000;
+const OVERDUE_SENT_LIMIT = 200;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isWebhookEvent = (value: unknown): value is WebhookEvent =>
+  WEBHOOK_EVENTS.includes(value as WebhookEvent);
+
+const isHttpUrl = (value: unknown) => {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+export const createWebhookTarget = (): WebhookTarget => ({
+  id: createId(),
+  name: 'New webhook',
+  url: '',
+  secret: createId().replace(/-/g, ''),
+  events: [...WEBHOOK_EVENTS],
+  enabled: true,
+});
+
+export const maskSecret = (secret: string) => `${MASK}${secret.slice(-4)}`;
+
+export const isMaskedSecret = (secret: string) => secret.startsWith(MASK);
+
+export const maskTargets = (state: WebhookState): WebhookState => ({
+  ...state,
+  targets: state.targets.map((target) => ({ ...target, secret: maskSecret(target.secret) })),
+});
+
+// Returns null when any target is unusable, so a bad save is refused as a whole.
+export const sanitizeTargets = (value: unknown): WebhookTarget[] | null => {
+  if (!Array.isArray(value)) return null;
+  const targets = value.map((item) => {
+    if (
+      !isRecord(item) ||
+      typeof item.id !== 'string' ||
+      typeof item.name !== 'string' ||
+      !isHttpUrl(item.url) ||
+      typeof item.secret !== 'string' ||
+      !item.secret ||
+      !Array.isArray(item.events)
+    ) {
+      return null;
+    }
+    return {
+      id: item.id,
+      name: item.name.trim() || 'Webhook',
+      url: item.url as string,
+      secret: item.secret,
+      events: WEBHOOK_EVENTS.filter((event) => (item.events as unknown[]).includes(event)),
+      enabled: item.enabled !== false,
+    };
+  });
+  return targets.every((target) => target !== null) ? (targets as WebhookTarget[]) : null;
+};
+
+export const sanitizeNotices = (value: unknown): TaskNotice[] | null => {
+  if (!Array.isArray(value)) return null;
+  const valid = value.every(
+    (item) =>
+      isRecord(item) &&
+      isWebhookEvent(item.event) &&
+      typeof item.occurredAt === 'string' &&
+      isRecord(item.task) &&
+      typeof item.task.id === 'string' &&
+      typeof item.task.title === 'string',
+  );
+  return valid ? (value as TaskNotice[]) : null;
+};
+
+const toWebhookTask = (task: Task): WebhookTask => ({
+  id: task.id,
+  title: task.title,
+  notes: task.notes,
+  scheduledFor: task.scheduledFor,
+  durationMinutes: task.durationMinutes,
+  completed: task.completed,
+  completedAt: task.completedAt,
+  snoozeCount: task.snoozeCount,
+  tags: task.tags,
+  priority: task.priority,
+  timeZone: task.timeZone,
+});
+
+const notice = (event: WebhookEvent, task: Task, now: number): TaskNotice => ({
+  event,
+  occurredAt: new Date(now).toISOString(),
+  task: toWebhookTask(task),
+});
+
+export const sampleNotice = (now: number): TaskNotice => ({
+  event: 'due',
+  occurredAt: new Date(now).toISOString(),
+  task: {
+    id: 'test',
+    title: 'Test delivery',
+    notes: 'Sent from the webhook settings.',
+    scheduledFor: new Date(now).toISOString(),
+    durationMinutes: null,
+    completed: false,
+    completedAt: null,
+    snoozeCount: 0,
+    tags: [],
+    priority: 'normal',
+    timeZone: 'UTC',
+  },
+});
+
+// Events are read off the difference between two snapshots, so it makes no difference whether a
+// change came from this tab, another tab, the server or the background worker.
+export const detectTaskEvents = (before: Task[], after: Task[], now: number): TaskNotice[] => {
+  const previous = new Map(before.map((task) => [task.id, task]));
+  return after.flatMap((task) => {
+    const old = previous.get(task.id);
+    if (!old) return [];
+    const notices: TaskNotice[] = [];
+    if (!old.notifiedAt && task.notifiedAt && !task.completed) {
+      notices.push(notice('due', task, now));
+    }
+    if (!old.completed && task.completed) {
+      notices.push(notice('completed', task, now));
+    }
+    if (task.snoozeCount > old.snoozeCount) {
+      notices.push(notice('snoozed', task, now));
+    }
+    return notices;
+  });
+};
+
+const overdueKey = (task: Task) => `${task.id}@${task.scheduledFor}`;
+
+// A task is overdue once its block has ended and the grace period has passed without it being
+// done. Each slot is announced once; `sent` carries the keys already announced.
+export const collectOverdue = (tasks: Task[], now: number, sent: string[]) => {
+  const announced = new Set(sent);
+  const overdue = tasks.filter((task) => {
+    if (task.completed || announced.has(overdueKey(task))) return false;
+    const since = now - (toBlock(task).end + OVERDUE_GRACE_MS);
+    return since >= 0 && since < OVERDUE_WINDOW_MS;
+  });
+  return {
+    notices: overdue.map((task) => notice('overdue', task, now)),
+    sent: [...sent, ...overdue.map(overdueKey)].slice(-OVERDUE_SENT_LIMIT),
+  };
+};
+
+export const readOverdueSent = (): string[] => {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(OVERDUE_SENT_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter((key) => typeof key === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const persistOverdueSent = (sent: string[]) => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(OVERDUE_SENT_KEY, JSON.stringify(sent));
+};
+
+export const announceWebhooksChanged = () => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(WEBHOOKS_CHANGED_KEY, String(Date.now()));
+};
+
+const request = async <T>(url: string, method: string, body?: unknown): Promise<T> => {
+  const response = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(payload?.error ?? `Webhook request failed with ${response.status}`);
+  }
+  return payload as T;
+};
+
+export const fetchWebhooks = () => request<WebhookState>(API_BASE, 'GET');
+
+export const saveWebhookTargets = (targets: WebhookTarget[]) =>
+  request<WebhookState>(API_BASE, 'PUT', { targets });
+
+// Without a target id the notices go to every enabled target subscribed to their event; with one
+// they go to that target alone, which is how test deliveries are sent.
+export const dispatchWebhooks = (notices: TaskNotice[], targetId?: string) =>
+  request<{ deliveries: WebhookDelivery[] }>(`${API_BASE}/dispatch`, 'POST', { notices, targetId });
@@ -0,0 +1,168 @@
+export type ZoneMode = 'device' | 'home';
+
+export type ZoneSettings = {
+  mode: ZoneMode;
+  homeZone: string;
+};
+
+export type WallTime = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+export const ZONE_SETTINGS_KEY = 'agentic-401dd876::time-zone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const deviceZone = () => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+export const isValidZone = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !value) return false;
+  try {
+    formatterFor(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const listZones = () =>
+  typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [deviceZone()];
+
+export const wallTime = (instant: number, timeZone: string): WallTime => {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone)
+      .formatToParts(new Date(instant))
+      .map((part) => [part.type, Number(part.value)]),
+  );
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+};
+
+const wallMs = (wall: WallTime) =>
+  Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+
+export const zoneOffset = (instant: number, timeZone: string) =>
+  wallMs(wallTime(instant, timeZone)) - Math.floor(instant / 1000) * 1000;
+
+// Around a DST change the offset differs on either side, so both candidates are checked. A time
+// that happens twice takes the first; one skipped by a spring-forward lands after the gap, as a
+// phone alarm would.
+export const fromWallTime = (wall: WallTime, timeZone: string) => {
+  const utc = wallMs(wall);
+  const first = utc - zoneOffset(utc, timeZone);
+  const second = utc - zoneOffset(first, timeZone);
+  const exact = [first, second].filter((instant) => wallMs(wallTime(instant, timeZone)) === utc);
+  return new Date(exact.length > 0 ? Math.min(...exact) : Math.max(first, second));
+};
+
+export const shiftDays = (wall: WallTime, days: number): WallTime => {
+  const date = new Date(Date.UTC(wall.year, wall.month - 1, wall.day) + days * DAY_MS);
+  return {
+    ...wall,
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  };
+};
+
+export const weekdayOf = (wall: WallTime) =>
+  new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay();
+
+export const toZonedInputValue = (date: Date, timeZone: string) => {
+  const wall = wallTime(date.getTime(), timeZone);
+  return `${wall.year}-${pad(wall.month)}-${pad(wall.day)}T${pad(wall.hour)}:${pad(wall.minute)}`;
+};
+
+export const fromZonedInputValue = (value: string, timeZone: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  return fromWallTime({ year, month, day, hour, minute, second: 0 }, timeZone);
+};
+
+// The first time `hour:minute` comes round on the zone's clock after `now`.
+export const nextWallClock = (now: number, hour: number, minute: number, timeZone: string) => {
+  const today = { ...wallTime(now, timeZone), hour, minute, second: 0 };
+  const target = fromWallTime(today, timeZone);
+  return target.getTime() > now ? target : fromWallTime(shiftDays(today, 1), timeZone);
+};
+
+export const zoneLabel = (timeZone: string, at: number) => {
+  const name = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(new Date(at))
+    .find((part) => part.type === 'timeZoneName')?.value;
+  return name ? `${timeZone.replace(/_/g, ' ')} (${name})` : timeZone;
+};
+
+export const formatInZone = (date: Date, timeZone: string) =>
+  date.toLocaleTimeString([], { timeZone, hour: '2-digit', minute: '2-digit' });
+
+export const readZoneSettings = (): ZoneSettings => {
+  const fallback: ZoneSettings = { mode: 'device', homeZone: deviceZone() };
+  if (typeof window === 'undefined') {
+    return fallback;
+  }
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(ZONE_SETTINGS_KEY) ?? 'null');
+    if (!parsed || typeof parsed !== 'object') {
+      return fallback;
+    }
+    return {
+      mode: parsed.mode === 'home' ? 'home' : 'device',
+      homeZone: isValidZone(parsed.homeZone) ? parsed.homeZone : fallback.homeZone,
+    };
+  } catch {
+    return fallback;
+  }
+};
+
+export const persistZoneSettings = (settings: ZoneSettings) => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(ZONE_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// The zone new times are typed and templates are laid out in.
+export const planningZone = (settings: ZoneSettings) =>
+  settings.mode === 'home' ? settings.homeZone : deviceZone();
+
+// Repeating rules pinned to a zone keep its wall clock; unpinned ones follow the device.
+export const seriesZone = (settings: ZoneSettings) =>
+  settings.mode === 'home' ? settings.homeZone : null;